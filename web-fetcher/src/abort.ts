@@ -0,0 +1,62 @@
+export interface Deadline {
+  /** Aborts when the time runs out or the parent signal aborts. */
+  signal: AbortSignal;
+  /** Stop the timer and detach from the parent once the work is done. */
+  clear(): void;
+}
+
+/**
+ * A signal that aborts with `message` after `ms`, or with the parent's reason
+ * when `parent` aborts first. Call `clear` when the guarded work settles, so
+ * no timer outlives it.
+ */
+export function deadline(ms: number, message: string, parent?: AbortSignal): Deadline {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error(message)), ms);
+  const onAbort = () => controller.abort(parent!.reason);
+
+  if (parent?.aborted) onAbort();
+  else parent?.addEventListener('abort', onAbort, { once: true });
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * The error an aborted operation rejects with. MCP cancellations carry an
+ * optional reason string rather than an Error.
+ */
+export function abortReason(signal: AbortSignal): Error {
+  const reason = signal.reason;
+  if (reason instanceof Error && reason.name !== 'AbortError') return reason;
+  return new Error(typeof reason === 'string' && reason ? `Request cancelled: ${reason}` : 'Request cancelled');
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw abortReason(signal);
+}
+
+/**
+ * Settle with `promise`, or reject as soon as `signal` aborts. The promise
+ * itself keeps running; callers stop the underlying work through the signal.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    promise.catch(() => {});
+    return Promise.reject(abortReason(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -0,0 +1,63 @@
+import { abortable, deadline } from './abort.js';
+
+export interface BatchOptions {
+  concurrency: number;
+  deadline: number;
+  /** Cancels the whole batch, as the deadline does. */
+  signal?: AbortSignal;
+}
+
+export interface BatchOutcome<T> {
+  index: number;
+  value?: T;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Run `task` over `items` with at most `concurrency` in flight. Each item
+ * settles independently: failures are recorded as errors, and once `deadline`
+ * (ms) passes or the batch is cancelled, running items are aborted through
+ * the signal handed to `task` and unstarted ones are skipped. Outcomes are
+ * returned in input order.
+ */
+export async function runBatch<I, T>(
+  items: I[],
+  task: (item: I, index: number, signal: AbortSignal) => Promise<T>,
+  options: BatchOptions
+): Promise<BatchOutcome<T>[]> {
+  const outcomes: BatchOutcome<T>[] = new Array(items.length);
+  const limit = deadline(options.deadline, `Batch deadline of ${options.deadline}ms exceeded`, options.signal);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const started = Date.now();
+
+      if (limit.signal.aborted) {
+        const reason = options.signal?.aborted ? 'batch cancelled' : 'batch deadline reached';
+        outcomes[index] = { index, error: `Skipped: ${reason} before this URL started`, durationMs: 0 };
+        continue;
+      }
+
+      try {
+        const value = await abortable(task(items[index], index, limit.signal), limit.signal);
+        outcomes[index] = { index, value, durationMs: Date.now() - started };
+      } catch (error) {
+        outcomes[index] = {
+          index,
+          error: error instanceof Error ? error.message : String(error),
+          durationMs: Date.now() - started,
+        };
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency, items.length)) }, worker));
+  } finally {
+    limit.clear();
+  }
+  return outcomes;
+}
@@ -0,0 +1,187 @@
+import { By, Key, until, WebDriver } from 'selenium-webdriver';
+
+export type BrowserAction =
+  | { type: 'wait_for'; selector: string; timeout?: number }
+  | { type: 'click'; selector: string; optional?: boolean }
+  | { type: 'type'; selector: string; text: string; submit?: boolean }
+  | { type: 'scroll'; times?: number; delay?: number }
+  | { type: 'dismiss_cookies' }
+  | { type: 'wait_for_network_idle'; idle?: number; timeout?: number }
+  | { type: 'wait'; ms: number };
+
+const ACTION_TYPES = ['wait_for', 'click', 'type', 'scroll', 'dismiss_cookies', 'wait_for_network_idle', 'wait'];
+const MAX_ACTIONS = 50;
+const MAX_SCROLLS = 50;
+
+const COOKIE_BUTTON_SELECTORS = [
+  '#onetrust-accept-btn-handler',
+  '#CybotCookiebotDialogBodyLevelButtonLLWhitelist',
+  '#CybotCookiebotDialogBodyButtonAccept',
+  '.fc-cta-consent',
+  '.cc-allow',
+  '.cc-dismiss',
+  '[data-testid="uc-accept-all-button"]',
+  '[aria-label*="accept" i]',
+  '[aria-label*="agree" i]',
+];
+
+const COOKIE_BUTTON_TEXT = /^\s*(accept( all)?( cookies)?|allow( all)?( cookies)?|agree|i agree|got it|ok(ay)?|alle akzeptieren|tout accepter|aceptar( todo)?|accetta( tutto)?)\s*$/i;
+
+/**
+ * Validate an action script supplied as tool arguments.
+ */
+export function parseActions(input: unknown): BrowserAction[] {
+  if (input === undefined) return [];
+  if (!Array.isArray(input)) throw new Error('actions must be an array');
+  if (input.length > MAX_ACTIONS) throw new Error(`actions may contain at most ${MAX_ACTIONS} steps`);
+
+  return input.map((action, i) => {
+    if (!action || typeof action !== 'object' || !ACTION_TYPES.includes((action as any).type)) {
+      throw new Error(`actions[${i}]: type must be one of ${ACTION_TYPES.join(', ')}`);
+    }
+    const { type, selector, text } = action as Record<string, unknown>;
+    if (['wait_for', 'click', 'type'].includes(type as string) && (typeof selector !== 'string' || !selector)) {
+      throw new Error(`actions[${i}]: "${type}" requires a selector`);
+    }
+    if (type === 'type' && typeof text !== 'string') {
+      throw new Error(`actions[${i}]: "type" requires text`);
+    }
+    if (type === 'wait' && typeof (action as any).ms !== 'number') {
+      throw new Error(`actions[${i}]: "wait" requires ms`);
+    }
+    return action as BrowserAction;
+  });
+}
+
+/**
+ * Run an action script against a loaded page. Every step is bounded by
+ * `timeout`; a `click` marked optional is skipped when its element is absent.
+ */
+export async function runActions(driver: WebDriver, actions: BrowserAction[], timeout: number): Promise<void> {
+  for (const action of actions) {
+    console.error(`Browser action: ${action.type}${'selector' in action ? ` ${action.selector}` : ''}`);
+
+    switch (action.type) {
+      case 'wait_for':
+        await driver.wait(until.elementLocated(By.css(action.selector)), Math.min(action.timeout ?? timeout, timeout));
+        break;
+      case 'click':
+        await click(driver, action.selector, action.optional ? 0 : timeout);
+        break;
+      case 'type': {
+        const element = await driver.wait(until.elementLocated(By.css(action.selector)), timeout);
+        await element.sendKeys(action.text, ...(action.submit ? [Key.ENTER] : []));
+        break;
+      }
+      case 'scroll':
+        await scrollToBottom(driver, Math.min(action.times ?? 1, MAX_SCROLLS), Math.min(action.delay ?? 1000, timeout), timeout);
+        break;
+      case 'dismiss_cookies':
+        if (!(await dismissCookieDialogs(driver))) console.error('No cookie dialog found');
+        break;
+      case 'wait_for_network_idle':
+        await waitForNetworkIdle(driver, action.idle ?? 500, Math.min(action.timeout ?? timeout, timeout));
+        break;
+      case 'wait':
+        await driver.sleep(Math.min(action.ms, timeout));
+        break;
+    }
+  }
+}
+
+async function click(driver: WebDriver, selector: string, timeout: number): Promise<void> {
+  const elements = timeout > 0
+    ? [await driver.wait(until.elementLocated(By.css(selector)), timeout)]
+    : await driver.findElements(By.css(selector));
+  if (elements.length === 0) return;
+
+  try {
+    await elements[0].click();
+  } catch {
+    // Overlays or off-screen elements intercept native clicks; fall back to a DOM click
+    await driver.executeScript('arguments[0].scrollIntoView({ block: "center" }); arguments[0].click();', elements[0]);
+  }
+}
+
+/**
+ * Scroll to the bottom `times` times, waiting `delay` ms after each scroll for
+ * more content to load. Stops early once the page height stops growing, or
+ * once `timeout` ms have passed.
+ */
+async function scrollToBottom(driver: WebDriver, times: number, delay: number, timeout: number): Promise<void> {
+  const deadline = Date.now() + timeout;
+  let height = await driver.executeScript<number>('return document.documentElement.scrollHeight;');
+
+  for (let i = 0; i < times; i++) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) break;
+    await driver.executeScript('window.scrollTo(0, document.documentElement.scrollHeight);');
+    await driver.sleep(Math.min(delay, remaining));
+
+    const next = await driver.executeScript<number>('return document.documentElement.scrollHeight;');
+    if (next === height) break;
+    height = next;
+  }
+}
+
+/**
+ * Click the accept button of common consent managers, first in the page and
+ * then inside consent iframes. Pages without a dialog are left untouched.
+ */
+async function dismissCookieDialogs(driver: WebDriver): Promise<boolean> {
+  const script = `
+    const selectors = arguments[0];
+    const pattern = new RegExp(arguments[1], 'i');
+    const visible = el => el.offsetParent !== null || getComputedStyle(el).position === 'fixed';
+    const candidates = [
+      ...selectors.flatMap(selector => [...document.querySelectorAll(selector)]),
+      ...[...document.querySelectorAll('button, [role="button"], a')].filter(el => pattern.test(el.textContent || '')),
+    ];
+    const target = candidates.find(visible);
+    if (target) target.click();
+    return Boolean(target);
+  `;
+  const args = [COOKIE_BUTTON_SELECTORS, COOKIE_BUTTON_TEXT.source];
+
+  if (await driver.executeScript<boolean>(script, ...args)) return true;
+
+  const frames = await driver.findElements(By.css('iframe[src*="consent" i], iframe[src*="cmp" i], iframe[id*="sp_message" i]'));
+  for (const frame of frames) {
+    try {
+      await driver.switchTo().frame(frame);
+      if (await driver.executeScript<boolean>(script, ...args)) return true;
+    } catch {
+      // Cross-origin or detached frame; try the next one
+    } finally {
+      await driver.switchTo().defaultContent();
+    }
+  }
+  return false;
+}
+
+/**
+ * Wait until the document has loaded and no new resources have been
+ * requested for `idle` ms, or until `timeout` elapses.
+ */
+async function waitForNetworkIdle(driver: WebDriver, idle: number, timeout: number): Promise<void> {
+  const deadline = Date.now() + timeout;
+  let lastCount = -1;
+  let quietSince = Date.now();
+
+  while (Date.now() < deadline) {
+    const { ready, count } = await driver.executeScript<{ ready: boolean; count: number }>(`
+      return {
+        ready: document.readyState === 'complete',
+        count: performance.getEntriesByType('resource').length,
+      };
+    `);
+
+    if (!ready || count !== lastCount) {
+      lastCount = count;
+      quietSince = Date.now();
+    } else if (Date.now() - quietSince >= idle) {
+      return;
+    }
+    await driver.sleep(100);
+  }
+}
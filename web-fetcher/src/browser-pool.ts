@@ -0,0 +1,300 @@
+import { Builder, WebDriver } from 'selenium-webdriver';
+import chrome from 'selenium-webdriver/chrome.js';
+import { abortable, abortReason } from './abort.js';
+
+export interface BrowserPoolOptions {
+  maxSize?: number;
+  idleTimeout?: number;
+  maxPagesPerSession?: number;
+  acquireTimeout?: number;
+  userAgent?: string;
+  /** Extra Chrome flags for each new session, such as its proxy. */
+  sessionArguments?: () => string[];
+}
+
+interface PooledSession {
+  driver: WebDriver;
+  pages: number;
+  lastUsed: number;
+  busy: boolean;
+}
+
+interface CdpFrameTree {
+  frame: { securityOrigin?: string };
+  childFrames?: CdpFrameTree[];
+}
+
+interface Waiter {
+  resolve: (session: PooledSession) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+type ResolvedPoolOptions = Required<Omit<BrowserPoolOptions, 'userAgent' | 'sessionArguments'>>
+  & Pick<BrowserPoolOptions, 'userAgent' | 'sessionArguments'>;
+
+const DEFAULT_POOL_OPTIONS: ResolvedPoolOptions = {
+  maxSize: parseInt(process.env.BROWSER_POOL_MAX_SIZE || '2', 10),
+  idleTimeout: parseInt(process.env.BROWSER_POOL_IDLE_TIMEOUT || '60000', 10),
+  maxPagesPerSession: parseInt(process.env.BROWSER_POOL_MAX_PAGES || '50', 10),
+  acquireTimeout: parseInt(process.env.BROWSER_POOL_ACQUIRE_TIMEOUT || '30000', 10),
+};
+
+export class BrowserPool {
+  private options: ResolvedPoolOptions;
+  private sessions: PooledSession[] = [];
+  private waiters: Waiter[] = [];
+  private pending = 0;
+  private evictionTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(options: BrowserPoolOptions = {}) {
+    this.options = { ...DEFAULT_POOL_OPTIONS, ...options };
+  }
+
+  /**
+   * Borrow a warm session, run `task` against its driver and hand it back.
+   * Sessions that throw a WebDriver-level error are treated as crashed and replaced.
+   * Aborting `signal` rejects at once and quits the session, since a page
+   * load or script in flight cannot be interrupted any other way.
+   */
+  async withDriver<T>(task: (driver: WebDriver) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const session = await this.acquire(signal);
+    if (signal?.aborted) {
+      await this.release(session, true);
+      throw abortReason(signal);
+    }
+
+    let healthy = true;
+    let abandoned = false;
+    const onAbort = () => {
+      abandoned = true;
+      console.error('Browser task aborted, closing its session');
+      void this.retire(session);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return await abortable(task(session.driver), signal);
+    } catch (error) {
+      if (!abandoned) healthy = await this.isAlive(session.driver);
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (!abandoned) await this.release(session, healthy);
+    }
+  }
+
+  async drain(): Promise<void> {
+    this.closed = true;
+
+    if (this.evictionTimer) {
+      clearInterval(this.evictionTimer);
+      this.evictionTimer = null;
+    }
+
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('Browser pool is shutting down'));
+    }
+
+    const sessions = this.sessions.splice(0);
+    await Promise.all(sessions.map(session => this.destroy(session)));
+  }
+
+  private async acquire(signal?: AbortSignal): Promise<PooledSession> {
+    if (this.closed) {
+      throw new Error('Browser pool is shutting down');
+    }
+
+    for (const session of this.sessions) {
+      if (session.busy) continue;
+
+      session.busy = true;
+      if (await this.isAlive(session.driver)) {
+        return session;
+      }
+
+      console.error('Browser session crashed, replacing it');
+      this.remove(session);
+      await this.destroy(session);
+    }
+
+    if (this.sessions.length + this.pending < this.options.maxSize) {
+      return this.create();
+    }
+
+    return new Promise<PooledSession>((resolve, reject) => {
+      const leave = (error: Error) => {
+        clearTimeout(waiter.timer);
+        this.waiters = this.waiters.filter(w => w !== waiter);
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      };
+      const onAbort = () => leave(abortReason(signal!));
+      const waiter: Waiter = {
+        resolve: session => {
+          signal?.removeEventListener('abort', onAbort);
+          // A session created for a waiter that has since given up goes back to the pool
+          if (signal?.aborted) void this.release(session, true);
+          else resolve(session);
+        },
+        reject: leave,
+        timer: setTimeout(() => leave(new Error('Timed out waiting for a browser session')), this.options.acquireTimeout),
+      };
+      this.waiters.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private async release(session: PooledSession, healthy: boolean): Promise<void> {
+    session.pages++;
+    session.lastUsed = Date.now();
+
+    const retire = !healthy || this.closed || session.pages >= this.options.maxPagesPerSession;
+
+    if (!retire) {
+      try {
+        await this.clearState(session.driver);
+      } catch {
+        healthy = false;
+      }
+    }
+
+    if (retire || !healthy) {
+      await this.retire(session);
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      waiter.resolve(session);
+      return;
+    }
+
+    session.busy = false;
+  }
+
+  /**
+   * Wipe what the last page left behind before the session is reused:
+   * cookies for every domain (WebDriver's deleteAllCookies only reaches the
+   * current one), plus the local storage, IndexedDB, Cache Storage and
+   * service workers of every origin still loaded in a frame.
+   */
+  private async clearState(driver: WebDriver): Promise<void> {
+    const devtools = driver as chrome.Driver;
+    const { frameTree } = await devtools.sendAndGetDevToolsCommand('Page.getFrameTree', {}) as unknown as { frameTree: CdpFrameTree };
+    const origins = new Set<string>();
+    const collect = (tree: CdpFrameTree) => {
+      const origin = tree.frame.securityOrigin;
+      if (origin && /^https?:\/\//.test(origin)) origins.add(origin);
+      tree.childFrames?.forEach(collect);
+    };
+    collect(frameTree);
+
+    // Session storage belongs to the tab rather than the origin's storage
+    await driver.executeScript('try { window.sessionStorage.clear(); } catch (error) {}');
+    for (const origin of origins) {
+      await devtools.sendDevToolsCommand('Storage.clearDataForOrigin', { origin, storageTypes: 'all' });
+    }
+    await devtools.sendDevToolsCommand('Network.clearBrowserCookies', {});
+    await driver.get('about:blank');
+  }
+
+  private async create(): Promise<PooledSession> {
+    this.pending++;
+
+    try {
+      const driver = await this.buildDriver();
+      const session: PooledSession = { driver, pages: 0, lastUsed: Date.now(), busy: true };
+      this.sessions.push(session);
+      this.scheduleEviction();
+      return session;
+    } finally {
+      this.pending--;
+    }
+  }
+
+  private async buildDriver(): Promise<WebDriver> {
+    const options = new chrome.Options();
+    options.addArguments(
+      '--headless',
+      '--no-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-blink-features=AutomationControlled',
+      '--disable-extensions',
+      '--window-size=1920,1080'
+    );
+    if (this.options.userAgent) {
+      options.addArguments(`--user-agent=${this.options.userAgent}`);
+    }
+    if (this.options.sessionArguments) {
+      options.addArguments(...this.options.sessionArguments());
+    }
+
+    return new Builder()
+      .forBrowser('chrome')
+      .setChromeOptions(options)
+      .build();
+  }
+
+  private async retire(session: PooledSession): Promise<void> {
+    this.remove(session);
+    await this.destroy(session);
+    this.serveNextWaiter();
+  }
+
+  private serveNextWaiter(): void {
+    if (this.closed || this.waiters.length === 0) return;
+    if (this.sessions.length + this.pending >= this.options.maxSize) return;
+
+    const waiter = this.waiters.shift()!;
+    clearTimeout(waiter.timer);
+    this.create().then(waiter.resolve, waiter.reject);
+  }
+
+  private scheduleEviction(): void {
+    if (this.evictionTimer) return;
+
+    this.evictionTimer = setInterval(() => this.evictIdle(), Math.max(this.options.idleTimeout / 2, 1000));
+    this.evictionTimer.unref();
+  }
+
+  private evictIdle(): void {
+    const now = Date.now();
+    const idle = this.sessions.filter(s => !s.busy && now - s.lastUsed >= this.options.idleTimeout);
+
+    for (const session of idle) {
+      console.error('Evicting idle browser session');
+      this.remove(session);
+      this.destroy(session);
+    }
+
+    if (this.sessions.length === 0 && this.evictionTimer) {
+      clearInterval(this.evictionTimer);
+      this.evictionTimer = null;
+    }
+  }
+
+  private async isAlive(driver: WebDriver): Promise<boolean> {
+    try {
+      await driver.getWindowHandle();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private remove(session: PooledSession): void {
+    this.sessions = this.sessions.filter(s => s !== session);
+  }
+
+  private async destroy(session: PooledSession): Promise<void> {
+    try {
+      await session.driver.quit();
+    } catch (error) {
+      console.error('Failed to quit browser session:', error);
+    }
+  }
+}
@@ -0,0 +1,254 @@
+import * as cheerio from 'cheerio';
+
+export interface MainContent {
+  html: string;
+  title?: string;
+  byline?: string;
+  publishedAt?: string;
+  excerpt?: string;
+  canonicalUrl?: string;
+  language?: string;
+}
+
+// Forms and headers are not stripped here: some pages wrap their whole body in a <form>, and articles have headers
+const STRIP_SELECTORS = 'script, style, noscript, iframe, svg, button, input, select, textarea, nav, footer, aside, .ad, .advertisement';
+
+// "ad" and "ads" only as whole class words, so download-, lead-, thread- and uploads survive
+const UNLIKELY_PATTERN = /(?:^|[-_\s])ads?(?:[-_\s]|$)|advert|banner|breadcrumb|combx|comment|community|consent|cookie|disqus|extra|footer|gdpr|header|legends|menu|modal|nav|newsletter|pager|pagination|popup|promo|related|remark|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|tags|toolbar|widget/i;
+const POSITIVE_PATTERN = /article|blog|body|content|entry|hentry|main|page|post|story|text/i;
+const NEGATIVE_PATTERN = /comment|com-|contact|foot|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|sponsor|shopping|tags|tool|widget/i;
+
+const SCORED_TAGS = 'p, pre, td, blockquote, li, h2, h3';
+const MIN_PARAGRAPH_LENGTH = 25;
+const MIN_ARTICLE_LENGTH = 250;
+
+/**
+ * Readability-style main-content detection. Blocks are scored by text and comma
+ * density, weighted by their class/id, and penalised by link density; the best
+ * candidate plus its related siblings is returned as the article body.
+ */
+export function extractMainContent(html: string): MainContent {
+  const $ = cheerio.load(html);
+
+  const title = detectTitle($);
+  const byline = detectByline($);
+  const publishedAt = detectPublishedAt($);
+  const excerpt = $('meta[name="description"]').attr('content')
+    || $('meta[property="og:description"]').attr('content')
+    || undefined;
+  const canonicalUrl = firstNonEmpty([
+    $('link[rel="canonical"]').attr('href'),
+    $('meta[property="og:url"]').attr('content'),
+  ]);
+  const language = firstNonEmpty([
+    $('html').attr('lang'),
+    $('meta[http-equiv="content-language" i]').attr('content'),
+    $('meta[property="og:locale"]').attr('content'),
+  ]);
+  const details = { title, byline, publishedAt, excerpt, canonicalUrl, language };
+
+  $(STRIP_SELECTORS).remove();
+  removeSiteHeaders($);
+  removeUnlikelyCandidates($);
+
+  const article = selectArticle($);
+  if (!article || article.text().trim().length < MIN_ARTICLE_LENGTH) {
+    const body = $('body');
+    removeFormsOutsideContent($, body);
+    return { html: body.html() || $.html(), ...details };
+  }
+
+  removeFormsOutsideContent($, article);
+  return { html: article.html() || '', ...details };
+}
+
+/**
+ * Drop page-level headers (site banners and masthead navigation), keeping
+ * those inside an article or main element.
+ */
+function removeSiteHeaders($: cheerio.CheerioAPI): void {
+  $('header').each((_, el) => {
+    const node = $(el);
+    if (node.closest('article, main').length === 0 && node.find('article, main').length === 0) {
+      node.remove();
+    }
+  });
+}
+
+/**
+ * Remove forms within the chosen content that are not content themselves,
+ * as Readability's conditional cleaning does: search boxes, sign-ups and
+ * comment forms have little text and more fields than paragraphs. A form
+ * wrapping the whole page keeps its text, and only loses its fields.
+ */
+function removeFormsOutsideContent($: cheerio.CheerioAPI, container: cheerio.Cheerio<any>): void {
+  container.find('form').each((_, el) => {
+    const node = $(el);
+    if (node.parents('form').length > 0) return;
+    const text = node.text().trim();
+    const paragraphs = node.find('p').length;
+    const fields = node.find('label, fieldset, legend').length;
+    if (text.length < MIN_ARTICLE_LENGTH || fields > paragraphs || linkDensity($, node) > 0.5) {
+      node.remove();
+    }
+  });
+}
+
+function detectTitle($: cheerio.CheerioAPI): string | undefined {
+  const candidates = [
+    $('meta[property="og:title"]').attr('content'),
+    $('meta[name="twitter:title"]').attr('content'),
+    $('article h1').first().text(),
+    $('h1').first().text(),
+    $('title').first().text(),
+  ];
+  return firstNonEmpty(candidates);
+}
+
+function detectByline($: cheerio.CheerioAPI): string | undefined {
+  const candidates = [
+    $('meta[name="author"]').attr('content'),
+    $('meta[property="article:author"]').attr('content'),
+    $('[rel="author"]').first().text(),
+    $('[itemprop="author"]').first().text(),
+    $('.byline, .author, .post-author').first().text(),
+  ];
+  return firstNonEmpty(candidates);
+}
+
+function detectPublishedAt($: cheerio.CheerioAPI): string | undefined {
+  const candidates = [
+    $('meta[property="article:published_time"]').attr('content'),
+    $('meta[name="date"]').attr('content'),
+    $('meta[itemprop="datePublished"]').attr('content'),
+    $('[itemprop="datePublished"]').first().attr('datetime'),
+    $('time[datetime]').first().attr('datetime'),
+  ];
+  return firstNonEmpty(candidates);
+}
+
+function firstNonEmpty(values: (string | undefined)[]): string | undefined {
+  for (const value of values) {
+    const trimmed = value?.replace(/\s+/g, ' ').trim();
+    if (trimmed) return trimmed;
+  }
+  return undefined;
+}
+
+function removeUnlikelyCandidates($: cheerio.CheerioAPI): void {
+  $('body *').each((_, el) => {
+    const node = $(el);
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'article' || tag === 'main' || tag === 'a') return;
+    if (node.closest('table, pre, code').length > 0) return;
+
+    const matchString = `${node.attr('class') || ''} ${node.attr('id') || ''}`;
+    if (matchString.trim() && UNLIKELY_PATTERN.test(matchString) && !POSITIVE_PATTERN.test(matchString)) {
+      node.remove();
+    }
+  });
+}
+
+function classWeight(node: cheerio.Cheerio<any>): number {
+  let weight = 0;
+  for (const value of [node.attr('class'), node.attr('id')]) {
+    if (!value) continue;
+    if (NEGATIVE_PATTERN.test(value)) weight -= 25;
+    if (POSITIVE_PATTERN.test(value)) weight += 25;
+  }
+  return weight;
+}
+
+function tagWeight(tag: string): number {
+  switch (tag) {
+    case 'article':
+    case 'main':
+      return 10;
+    case 'div':
+    case 'section':
+      return 5;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      return 3;
+    case 'ol':
+    case 'ul':
+    case 'form':
+      return -3;
+    default:
+      return 0;
+  }
+}
+
+function linkDensity($: cheerio.CheerioAPI, node: cheerio.Cheerio<any>): number {
+  const textLength = node.text().trim().length;
+  if (textLength === 0) return 0;
+
+  let linkLength = 0;
+  node.find('a').each((_, a) => {
+    linkLength += $(a).text().trim().length;
+  });
+  return linkLength / textLength;
+}
+
+function selectArticle($: cheerio.CheerioAPI): cheerio.Cheerio<any> | null {
+  const scores = new Map<unknown, number>();
+
+  const initialise = (el: any): void => {
+    if (scores.has(el)) return;
+    const node = $(el);
+    scores.set(el, tagWeight(el.tagName.toLowerCase()) + classWeight(node));
+  };
+
+  $(SCORED_TAGS).each((_, el) => {
+    const text = $(el).text().trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    const contentScore = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const ancestors = $(el).parents().toArray().slice(0, 3);
+
+    ancestors.forEach((ancestor, level) => {
+      if (ancestor.tagName.toLowerCase() === 'html') return;
+      initialise(ancestor);
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, (scores.get(ancestor) || 0) + contentScore / divider);
+    });
+  });
+
+  let top: any = null;
+  let topScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, $(el as any)));
+    scores.set(el, adjusted);
+    if (adjusted > topScore) {
+      top = el;
+      topScore = adjusted;
+    }
+  }
+
+  if (!top) return null;
+
+  const topNode = $(top);
+  if (topNode.is('body')) return topNode;
+
+  const threshold = Math.max(10, topScore * 0.2);
+  const wrapper = $('<div></div>');
+
+  topNode.parent().children().each((_, sibling) => {
+    const node = $(sibling);
+    if (sibling === top) {
+      wrapper.append(node.clone());
+      return;
+    }
+
+    const siblingScore = scores.get(sibling) || 0;
+    const text = node.text().trim();
+    const isDenseParagraph = node.is('p') && text.length > 80 && linkDensity($, node) < 0.25;
+
+    if (siblingScore >= threshold || isDenseParagraph) {
+      wrapper.append(node.clone());
+    }
+  });
+
+  return wrapper;
+}
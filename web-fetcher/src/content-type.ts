@@ -0,0 +1,187 @@
+export type DocumentFormat =
+  | 'pdf'
+  | 'docx'
+  | 'doc'
+  | 'pptx'
+  | 'ppt'
+  | 'xlsx'
+  | 'csv'
+  | 'odt'
+  | 'ods'
+  | 'odp'
+  | 'epub';
+
+export type ContentFormat = DocumentFormat | 'html' | 'text' | 'json' | 'xml' | 'image' | 'binary';
+
+const DOCUMENT_FORMATS: DocumentFormat[] = ['pdf', 'docx', 'doc', 'pptx', 'ppt', 'xlsx', 'csv', 'odt', 'ods', 'odp', 'epub'];
+
+export interface DetectedContent {
+  format: ContentFormat;
+  mimeType: string;
+  charset?: string;
+}
+
+const MIME_FORMATS: [RegExp, ContentFormat][] = [
+  [/^text\/html$|^application\/xhtml\+xml$/, 'html'],
+  [/^application\/pdf$/, 'pdf'],
+  [/^application\/vnd\.openxmlformats-officedocument\.wordprocessingml\.document$/, 'docx'],
+  [/^application\/msword$/, 'doc'],
+  [/^application\/vnd\.openxmlformats-officedocument\.presentationml\.presentation$/, 'pptx'],
+  [/^application\/vnd\.ms-powerpoint$/, 'ppt'],
+  [/^application\/vnd\.openxmlformats-officedocument\.spreadsheetml\.sheet$/, 'xlsx'],
+  [/^(text|application)\/csv$|^text\/tab-separated-values$/, 'csv'],
+  [/^application\/vnd\.oasis\.opendocument\.text$/, 'odt'],
+  [/^application\/vnd\.oasis\.opendocument\.spreadsheet$/, 'ods'],
+  [/^application\/vnd\.oasis\.opendocument\.presentation$/, 'odp'],
+  [/^application\/epub\+zip$/, 'epub'],
+  [/^application\/json$|\+json$/, 'json'],
+  [/^(application|text)\/xml$|\+xml$/, 'xml'],
+  [/^image\//, 'image'],
+  [/^text\//, 'text'],
+];
+
+export function isDocumentFormat(format: ContentFormat): format is DocumentFormat {
+  return (DOCUMENT_FORMATS as ContentFormat[]).includes(format);
+}
+
+/**
+ * Decide how a response should be extracted from what the server actually sent:
+ * magic bytes first, then the Content-Type header, then a look at the body text.
+ * Generic types such as application/octet-stream never override a sniffed format.
+ */
+export function detectContent(buffer: Buffer, contentTypeHeader?: string): DetectedContent {
+  const [rawMime, ...params] = (contentTypeHeader || '').split(';');
+  const mimeType = rawMime.trim().toLowerCase();
+  const charset = params
+    .map(param => param.trim().match(/^charset=["']?([^"']+)["']?$/i)?.[1])
+    .find(Boolean);
+
+  const declared = MIME_FORMATS.find(([pattern]) => pattern.test(mimeType))?.[1];
+
+  const sniffed = sniffMagicBytes(buffer);
+  if (sniffed) {
+    return { format: sniffed, mimeType: declared === sniffed ? mimeType : defaultMimeType(sniffed), charset };
+  }
+
+  if (declared) {
+    return { format: declared, mimeType, charset };
+  }
+
+  const textual = sniffText(buffer);
+  return { format: textual, mimeType: mimeType || defaultMimeType(textual), charset };
+}
+
+/**
+ * Decode a text body using the declared charset, or a `<meta charset>` found in
+ * the first kilobyte, defaulting to UTF-8.
+ */
+export function decodeText(buffer: Buffer, charset?: string): string {
+  const head = buffer.subarray(0, 1024).toString('latin1');
+  const label = charset || head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] || 'utf-8';
+
+  try {
+    return new TextDecoder(label).decode(buffer);
+  } catch {
+    return buffer.toString('utf8');
+  }
+}
+
+function sniffMagicBytes(buffer: Buffer): ContentFormat | null {
+  const startsWith = (bytes: number[], offset = 0) =>
+    buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+
+  if (startsWith([0x25, 0x50, 0x44, 0x46, 0x2d])) return 'pdf';
+  if (startsWith([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return sniffCompoundDocument(buffer);
+  if (startsWith([0x50, 0x4b, 0x03, 0x04])) return sniffZipContainer(buffer);
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47])) return 'image';
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image';
+  if (startsWith([0x47, 0x49, 0x46, 0x38])) return 'image';
+  if (startsWith([0x49, 0x49, 0x2a, 0x00]) || startsWith([0x4d, 0x4d, 0x00, 0x2a])) return 'image';
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return 'image';
+
+  return null;
+}
+
+/**
+ * OLE compound files (legacy Office) name their main stream in UTF-16LE.
+ */
+function sniffCompoundDocument(buffer: Buffer): ContentFormat {
+  if (buffer.includes(Buffer.from('PowerPoint Document', 'utf16le'))) return 'ppt';
+  if (buffer.includes(Buffer.from('WordDocument', 'utf16le'))) return 'doc';
+  return 'binary';
+}
+
+/**
+ * ZIP-based formats: ODF and EPUB store an uncompressed `mimetype` entry first;
+ * OOXML is recognised by its part names in the central directory.
+ */
+function sniffZipContainer(buffer: Buffer): ContentFormat {
+  const head = buffer.subarray(0, 256).toString('latin1');
+  const odfMime = head.match(/mimetype(application\/(?:vnd\.oasis\.opendocument\.(?:text|spreadsheet|presentation)|epub\+zip))/)?.[1];
+  if (odfMime) {
+    const declared = MIME_FORMATS.find(([pattern]) => pattern.test(odfMime))?.[1];
+    if (declared) return declared;
+  }
+
+  if (buffer.includes('word/document.xml')) return 'docx';
+  if (buffer.includes('ppt/presentation.xml')) return 'pptx';
+  if (buffer.includes('xl/workbook.xml')) return 'xlsx';
+  return 'binary';
+}
+
+function sniffText(buffer: Buffer): ContentFormat {
+  const sample = buffer.subarray(0, 2048);
+  if (sample.includes(0)) return 'binary';
+
+  const text = sample.toString('utf8').replace(/^\uFEFF/, '').trimStart();
+  if (/^<!doctype html|^<html|^<head|^<body/i.test(text)) return 'html';
+  if (/^<\?xml|^<(rss|feed|svg)\b/i.test(text)) return 'xml';
+  if (/^[[{]/.test(text)) {
+    try {
+      JSON.parse(buffer.toString('utf8'));
+      return 'json';
+    } catch {
+      // Not JSON after all; fall through to HTML/text checks
+    }
+  }
+  if (/<(p|div|article|table|h1)\b/i.test(text)) return 'html';
+  return 'text';
+}
+
+function defaultMimeType(format: ContentFormat): string {
+  switch (format) {
+    case 'html':
+      return 'text/html';
+    case 'pdf':
+      return 'application/pdf';
+    case 'docx':
+      return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    case 'doc':
+      return 'application/msword';
+    case 'pptx':
+      return 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+    case 'ppt':
+      return 'application/vnd.ms-powerpoint';
+    case 'xlsx':
+      return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    case 'csv':
+      return 'text/csv';
+    case 'odt':
+      return 'application/vnd.oasis.opendocument.text';
+    case 'ods':
+      return 'application/vnd.oasis.opendocument.spreadsheet';
+    case 'odp':
+      return 'application/vnd.oasis.opendocument.presentation';
+    case 'epub':
+      return 'application/epub+zip';
+    case 'json':
+      return 'application/json';
+    case 'xml':
+      return 'application/xml';
+    case 'text':
+      return 'text/plain';
+    default:
+      return 'application/octet-stream';
+  }
+}
@@ -0,0 +1,266 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface Cookie {
+  name: string;
+  value: string;
+  /** Lower-case host or domain, without a leading dot. */
+  domain: string;
+  /** Only sent to `domain` itself, not its subdomains. */
+  hostOnly: boolean;
+  path: string;
+  secure: boolean;
+  httpOnly: boolean;
+  /** Expiry in seconds since the epoch; undefined for session cookies. */
+  expires?: number;
+}
+
+const HTTP_ONLY_PREFIX = '#HttpOnly_';
+
+/**
+ * RFC 6265 cookie store for the HTTP and browser paths, optionally backed by
+ * a Netscape cookie file (the format written by curl, wget and browser
+ * export extensions). Call `load` before use; the file is rewritten whenever
+ * a response changes the jar, so logins survive restarts. Lookups are
+ * synchronous so they can run inside redirect hooks.
+ */
+export class CookieJar {
+  private cookies = new Map<string, Cookie>();
+  private loaded?: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private file?: string) {}
+
+  /**
+   * Read the cookie file once; later calls return the same promise.
+   */
+  load(): Promise<void> {
+    this.loaded ??= (async () => {
+      if (!this.file) return;
+      try {
+        const text = await fs.readFile(this.file, 'utf8');
+        for (const cookie of parseNetscape(text)) this.put(cookie);
+        console.error(`Loaded ${this.cookies.size} cookie(s) from ${this.file}`);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error(`Could not read cookie file ${this.file}:`, error);
+        }
+      }
+    })();
+    return this.loaded;
+  }
+
+  /**
+   * Cookies to send to `url`, longest path first.
+   */
+  cookiesFor(url: string): Cookie[] {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return [];
+    }
+
+    const host = target.hostname.toLowerCase();
+    return this.all()
+      .filter(cookie =>
+        (cookie.hostOnly ? host === cookie.domain : domainMatches(host, cookie.domain))
+        && pathMatches(target.pathname, cookie.path)
+        && (!cookie.secure || target.protocol === 'https:'))
+      .sort((a, b) => b.path.length - a.path.length);
+  }
+
+  /**
+   * The Cookie header for a request to `url`, or undefined when none apply.
+   */
+  header(url: string): string | undefined {
+    const cookies = this.cookiesFor(url);
+    return cookies.length > 0 ? cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') : undefined;
+  }
+
+  /**
+   * Store the Set-Cookie headers of a response from `url`. Cookies for other
+   * domains are ignored; expired ones are removed.
+   */
+  setCookies(url: string, headers: string | string[] | undefined): void {
+    if (!headers) return;
+    let changed = false;
+    for (const header of Array.isArray(headers) ? headers : [headers]) {
+      const cookie = parseSetCookie(header, url);
+      if (cookie) changed = this.put(cookie) || changed;
+    }
+    if (changed) this.save();
+  }
+
+  /**
+   * Store cookies read back from elsewhere, such as the browser.
+   */
+  add(cookies: Cookie[]): void {
+    const changed = cookies.reduce((any, cookie) => this.put(cookie) || any, false);
+    if (changed) this.save();
+  }
+
+  /**
+   * Whether the jar holds an unexpired cookie for `host` or a domain above it.
+   */
+  covers(host: string): boolean {
+    const name = host.toLowerCase();
+    return this.all().some(cookie => domainMatches(name, cookie.domain));
+  }
+
+  /**
+   * Every unexpired cookie in the jar.
+   */
+  all(): Cookie[] {
+    const now = Date.now() / 1000;
+    return [...this.cookies.values()].filter(cookie => cookie.expires === undefined || cookie.expires > now);
+  }
+
+  private put(cookie: Cookie): boolean {
+    const key = `${cookie.domain}\t${cookie.path}\t${cookie.name}`;
+    const existing = this.cookies.get(key);
+    if (cookie.expires !== undefined && cookie.expires <= Date.now() / 1000) {
+      return this.cookies.delete(key);
+    }
+    if (existing && JSON.stringify(existing) === JSON.stringify(cookie)) return false;
+    this.cookies.set(key, cookie);
+    return true;
+  }
+
+  private save(): void {
+    const file = this.file;
+    if (!file) return;
+    // Writes are chained so overlapping responses cannot interleave them
+    this.saving = this.saving
+      .then(async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, formatNetscape(this.all()), { mode: 0o600 });
+      })
+      .catch(error => console.error(`Could not write cookie file ${file}:`, error));
+  }
+}
+
+/**
+ * Parse a Netscape cookie file: tab-separated domain, include-subdomains flag,
+ * path, secure flag, expiry, name and value, with `#HttpOnly_` marking
+ * HttpOnly cookies. An expiry of 0 is a session cookie.
+ */
+export function parseNetscape(text: string): Cookie[] {
+  const cookies: Cookie[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine;
+    const httpOnly = line.startsWith(HTTP_ONLY_PREFIX);
+    if (httpOnly) line = line.slice(HTTP_ONLY_PREFIX.length);
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    const fields = line.split('\t');
+    if (fields.length < 7) continue;
+    const [domain, subdomains, cookiePath, secure, expires, name, ...value] = fields;
+    const expiry = parseInt(expires, 10);
+    cookies.push({
+      name,
+      value: value.join('\t'),
+      domain: domain.replace(/^\./, '').toLowerCase(),
+      hostOnly: subdomains.toUpperCase() !== 'TRUE',
+      path: cookiePath || '/',
+      secure: secure.toUpperCase() === 'TRUE',
+      httpOnly,
+      expires: expiry > 0 ? expiry : undefined,
+    });
+  }
+  return cookies;
+}
+
+export function formatNetscape(cookies: Cookie[]): string {
+  const lines = cookies.map(cookie => [
+    `${cookie.httpOnly ? HTTP_ONLY_PREFIX : ''}${cookie.hostOnly ? '' : '.'}${cookie.domain}`,
+    cookie.hostOnly ? 'FALSE' : 'TRUE',
+    cookie.path,
+    cookie.secure ? 'TRUE' : 'FALSE',
+    String(cookie.expires ?? 0),
+    cookie.name,
+    cookie.value,
+  ].join('\t'));
+  return ['# Netscape HTTP Cookie File', '# Written by web-fetcher', '', ...lines, ''].join('\n');
+}
+
+/**
+ * Parse one Set-Cookie header received from `url`. Returns undefined when it
+ * is malformed or names a domain the response's host may not set.
+ */
+function parseSetCookie(header: string, url: string): Cookie | undefined {
+  let source: URL;
+  try {
+    source = new URL(url);
+  } catch {
+    return undefined;
+  }
+  const host = source.hostname.toLowerCase();
+
+  const [pair, ...attributes] = header.split(';');
+  const separator = pair.indexOf('=');
+  if (separator < 0) return undefined;
+  const name = pair.slice(0, separator).trim();
+  if (!name) return undefined;
+
+  const cookie: Cookie = {
+    name,
+    value: pair.slice(separator + 1).trim(),
+    domain: host,
+    hostOnly: true,
+    path: defaultPath(source.pathname),
+    secure: false,
+    httpOnly: false,
+  };
+
+  let maxAge: number | undefined;
+  for (const attribute of attributes) {
+    const [key, ...rest] = attribute.split('=');
+    const value = rest.join('=').trim();
+    switch (key.trim().toLowerCase()) {
+      case 'domain': {
+        const domain = value.replace(/^\./, '').toLowerCase();
+        if (!domain) break;
+        // A bare public suffix or another site's domain is rejected outright
+        if (!domain.includes('.') || !domainMatches(host, domain)) return undefined;
+        cookie.domain = domain;
+        cookie.hostOnly = false;
+        break;
+      }
+      case 'path':
+        if (value.startsWith('/')) cookie.path = value;
+        break;
+      case 'secure':
+        cookie.secure = true;
+        break;
+      case 'httponly':
+        cookie.httpOnly = true;
+        break;
+      case 'max-age':
+        if (/^-?\d+$/.test(value)) maxAge = parseInt(value, 10);
+        break;
+      case 'expires': {
+        const time = Date.parse(value);
+        if (!Number.isNaN(time) && cookie.expires === undefined) cookie.expires = Math.floor(time / 1000);
+        break;
+      }
+    }
+  }
+  // Max-Age takes precedence over Expires
+  if (maxAge !== undefined) cookie.expires = Math.floor(Date.now() / 1000) + maxAge;
+  return cookie;
+}
+
+function domainMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  return requestPath === cookiePath
+    || (requestPath.startsWith(cookiePath) && (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/'));
+}
+
+function defaultPath(pathname: string): string {
+  const slash = pathname.lastIndexOf('/');
+  return slash > 0 ? pathname.slice(0, slash) : '/';
+}
@@ -0,0 +1,213 @@
+import * as cheerio from 'cheerio';
+import { runBatch } from './batch.js';
+import { resolveUrl } from './links.js';
+import type { FetchResult, WebFetcher } from './web-fetcher.js';
+
+export interface CrawlerOptions {
+  maxPages?: number;
+  maxDepth?: number;
+  concurrency?: number;
+  deadline?: number;
+}
+
+export interface CrawlOptions extends CrawlerOptions {
+  pathPrefix?: string;
+  include?: string[];
+  exclude?: string[];
+  sitemap?: boolean;
+  bypassCache?: boolean;
+  /** Stops the crawl; pages fetched so far are still returned. */
+  signal?: AbortSignal;
+}
+
+export interface CrawlPage {
+  url: string;
+  depth: number;
+  result?: FetchResult;
+  error?: string;
+  duplicateOf?: string;
+}
+
+export interface CrawlResult {
+  startUrl: string;
+  pathPrefix: string;
+  pages: CrawlPage[];
+  pending: number;
+  sitemapUrls: number;
+  durationMs: number;
+}
+
+const DEFAULT_CRAWLER_OPTIONS: Required<CrawlerOptions> = {
+  maxPages: parseInt(process.env.FETCH_CRAWL_MAX_PAGES || '20', 10),
+  maxDepth: parseInt(process.env.FETCH_CRAWL_MAX_DEPTH || '2', 10),
+  concurrency: parseInt(process.env.FETCH_CRAWL_CONCURRENCY || '4', 10),
+  deadline: parseInt(process.env.FETCH_CRAWL_DEADLINE || '120000', 10),
+};
+
+const MAX_PAGES_LIMIT = 200;
+const MAX_SITEMAPS = 10;
+
+// Links to these are assets, not pages worth extracting
+const ASSET_PATTERN = /\.(png|jpe?g|gif|webp|svg|ico|bmp|css|js|mjs|map|woff2?|ttf|eot|mp3|mp4|webm|avi|mov|zip|gz|tgz|bz2|xz|7z|rar|exe|dmg|pkg|deb|rpm|apk|iso)$/i;
+
+/**
+ * Breadth-first crawler over one origin. Pages are fetched with
+ * `WebFetcher.fetchContent`, so the URL policy, politeness and cache apply to
+ * every request. Links are followed only when they stay under the path prefix
+ * and pass the include/exclude globs; pages whose canonical URL was already
+ * fetched are reported as duplicates.
+ */
+export class Crawler {
+  private options: Required<CrawlerOptions>;
+
+  constructor(private fetcher: WebFetcher, options: CrawlerOptions = {}) {
+    this.options = { ...DEFAULT_CRAWLER_OPTIONS, ...options };
+  }
+
+  async crawl(startUrl: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+    const started = Date.now();
+    const start = new URL(startUrl);
+    start.hash = '';
+    const maxPages = Math.min(options.maxPages ?? this.options.maxPages, MAX_PAGES_LIMIT);
+    const maxDepth = options.maxDepth ?? this.options.maxDepth;
+    const concurrency = options.concurrency ?? this.options.concurrency;
+    const deadline = started + (options.deadline ?? this.options.deadline);
+
+    // By default stay within the start page's directory, e.g. /guide/ for /guide/intro
+    const pathPrefix = options.pathPrefix || start.pathname.slice(0, start.pathname.lastIndexOf('/') + 1);
+    const include = (options.include || []).map(compileGlob);
+    const exclude = (options.exclude || []).map(compileGlob);
+
+    const inScope = (href: string): boolean => {
+      const url = new URL(href);
+      const path = url.pathname + url.search;
+      return url.origin === start.origin
+        && url.pathname.startsWith(pathPrefix)
+        && !ASSET_PATTERN.test(url.pathname)
+        && (include.length === 0 || include.some(glob => glob.test(path)))
+        && !exclude.some(glob => glob.test(path));
+    };
+
+    const pages: CrawlPage[] = [];
+    const queued = new Set<string>([start.href]);
+    const canonicals = new Map<string, string>();
+    let frontier = [start.href];
+    let sitemapUrls = 0;
+
+    if (options.sitemap) {
+      const seeds = (await this.readSitemap(`${start.origin}/sitemap.xml`, options.signal)).filter(inScope);
+      sitemapUrls = seeds.length;
+      console.error(`Sitemap provided ${seeds.length} in-scope URL(s)`);
+      // Sitemap entries are one hop from the start page, ahead of discovered links
+      for (const url of seeds) queued.add(url);
+      frontier.push(...seeds.filter(url => url !== start.href));
+    }
+
+    for (let depth = 0; frontier.length > 0; depth++) {
+      const remaining = deadline - Date.now();
+      const budget = maxPages - pages.length;
+      if (depth > maxDepth || remaining <= 0 || budget <= 0 || options.signal?.aborted) break;
+
+      // The start page shares depth 0 with nothing else; sitemap seeds move to depth 1
+      const level = depth === 0 ? frontier.slice(0, 1) : frontier.slice(0, budget);
+      const carried = depth === 0 ? frontier.slice(1) : [];
+      frontier = frontier.slice(level.length + carried.length);
+      console.error(`Crawling depth ${depth}: ${level.length} page(s)`);
+
+      const outcomes = await runBatch(
+        level,
+        (url, _, signal) => this.fetcher.fetchContent(url, { links: true, bypassCache: options.bypassCache, signal }),
+        { concurrency, deadline: remaining, signal: options.signal }
+      );
+
+      const discovered: string[] = [...carried];
+      for (const outcome of outcomes) {
+        const url = level[outcome.index];
+        const result = outcome.value;
+        if (!result) {
+          pages.push({ url, depth, error: outcome.error });
+          continue;
+        }
+
+        const canonical = resolveUrl(result.canonicalUrl, result.finalUrl) || result.finalUrl;
+        const duplicateOf = canonicals.get(canonical);
+        if (duplicateOf) {
+          pages.push({ url, depth, duplicateOf });
+          continue;
+        }
+        canonicals.set(canonical, url);
+        pages.push({ url, depth, result });
+
+        // Redirects off the prefix or origin end the branch
+        if (!inScope(result.finalUrl)) continue;
+        for (const { url: link } of result.links?.links || []) {
+          if (!queued.has(link) && /^https?:/.test(link) && inScope(link)) {
+            queued.add(link);
+            discovered.push(link);
+          }
+        }
+      }
+      frontier = [...frontier, ...discovered];
+    }
+
+    return {
+      startUrl: start.href,
+      pathPrefix,
+      pages,
+      pending: frontier.length,
+      sitemapUrls,
+      durationMs: Date.now() - started,
+    };
+  }
+
+  /**
+   * Page URLs listed in a sitemap, following sitemap indexes up to a fixed
+   * number of files. A missing or malformed sitemap yields no URLs.
+   */
+  private async readSitemap(sitemapUrl: string, signal?: AbortSignal): Promise<string[]> {
+    const urls: string[] = [];
+    const pending = [sitemapUrl];
+    const seen = new Set<string>();
+
+    while (pending.length > 0 && seen.size < MAX_SITEMAPS && !signal?.aborted) {
+      const next = pending.shift()!;
+      if (seen.has(next)) continue;
+      seen.add(next);
+
+      try {
+        // A plain GET: a missing sitemap is no reason to start a browser
+        const response = await this.fetcher.fetchText(next, { signal });
+        if (response.status === 404 || response.status === 410) continue;
+        if (response.status < 200 || response.status >= 300) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const $ = cheerio.load(response.body, { xmlMode: true });
+        $('sitemap > loc').each((_, element) => {
+          const loc = resolveUrl($(element).text(), next);
+          if (loc) pending.push(loc);
+        });
+        $('url > loc').each((_, element) => {
+          const loc = resolveUrl($(element).text(), next);
+          if (loc) urls.push(loc);
+        });
+      } catch (error) {
+        console.error(`Could not read sitemap ${next}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return [...new Set(urls)];
+  }
+}
+
+/**
+ * Compile a path glob: `**` matches across `/`, `*` within one segment.
+ */
+function compileGlob(glob: string): RegExp {
+  const body = glob
+    .split('**')
+    .map(part => part
+      .split('*')
+      .map(piece => piece.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${body}$`);
+}
@@ -0,0 +1,428 @@
+import { WebDriver } from 'selenium-webdriver';
+import type chrome from 'selenium-webdriver/chrome.js';
+import { Cookie, CookieJar } from './cookie-jar.js';
+
+export type AuthProfile =
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'bearer'; token: string };
+
+export interface CredentialsOptions {
+  /** Extra headers keyed by host glob, e.g. `*.corp.example.com`. */
+  headers?: Record<string, Record<string, string>>;
+  /** Basic or bearer credentials keyed by host glob. */
+  auth?: Record<string, AuthProfile>;
+  /** Netscape cookie file to load the jar from and persist it to. */
+  cookieFile?: string;
+}
+
+/** Headers supplied with one fetch, sent only to the host that was asked for. */
+export interface RequestHeaders {
+  url: string;
+  headers: Record<string, string>;
+}
+
+interface HostRule<T> {
+  pattern: RegExp;
+  value: T;
+}
+
+interface CdpCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number;
+  httpOnly: boolean;
+  secure: boolean;
+  session: boolean;
+}
+
+interface CdpMessage {
+  method?: string;
+  params?: Record<string, any>;
+}
+
+/** The parts of selenium's untyped DevTools websocket that request interception uses. */
+interface CdpConnection {
+  execute(method: string, params: Record<string, unknown>, callback: ((error?: Error) => void) | null): void;
+  send(method: string, params: Record<string, unknown>): Promise<unknown>;
+}
+
+interface CdpWebSocket {
+  on(event: 'message', listener: (data: Buffer) => void): void;
+  off(event: 'message', listener: (data: Buffer) => void): void;
+  close(): void;
+}
+
+interface CdpDriver {
+  createCDPConnection(target: 'page'): Promise<CdpConnection>;
+  _cdpWsConnection: CdpWebSocket;
+}
+
+function jsonFromEnv<T>(name: string): T | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    console.error(`Ignoring ${name}: not valid JSON`);
+    return undefined;
+  }
+}
+
+const DEFAULT_CREDENTIALS_OPTIONS: CredentialsOptions = {
+  headers: jsonFromEnv('FETCH_HEADERS'),
+  auth: jsonFromEnv('FETCH_AUTH_PROFILES'),
+  cookieFile: process.env.FETCH_COOKIE_FILE,
+};
+
+/**
+ * Credentials for pages behind a login: per-domain headers, basic or bearer
+ * auth profiles and a cookie jar, all matched against the host of each
+ * request. The HTTP path asks for headers per request and redirect hop; the
+ * browser path gets the jar's cookies and has matching requests rewritten
+ * through DevTools, so neither leaks credentials to other hosts.
+ */
+export class Credentials {
+  private jar: CookieJar;
+  private headerRules: HostRule<Record<string, string>>[];
+  private authRules: HostRule<AuthProfile>[];
+
+  constructor(options: CredentialsOptions = {}) {
+    const resolved = { ...DEFAULT_CREDENTIALS_OPTIONS, ...options };
+    this.jar = new CookieJar(resolved.cookieFile);
+    this.headerRules = Object.entries(resolved.headers || {}).map(([glob, headers]) => {
+      if (!headers || typeof headers !== 'object') {
+        throw new Error(`Headers for ${glob} must be an object of header names to values`);
+      }
+      return { pattern: compileHostGlob(glob), value: headers };
+    });
+    this.authRules = Object.entries(resolved.auth || {}).map(([glob, profile]) => {
+      validateProfile(glob, profile);
+      return { pattern: compileHostGlob(glob), value: profile };
+    });
+  }
+
+  /**
+   * Read the cookie file, if any. Must complete before headers are looked up.
+   */
+  ready(): Promise<void> {
+    return this.jar.load();
+  }
+
+  /**
+   * Headers to add to a request for `url`: matching per-domain headers, the
+   * auth profile and the jar's cookies, then any per-request headers when
+   * `url` is on the host they were supplied for.
+   */
+  headersFor(url: string, request?: RequestHeaders): Record<string, string> {
+    const headers = this.staticHeadersFor(url, request);
+    const cookie = this.jar.header(url);
+    if (cookie && !Object.keys(headers).some(name => name.toLowerCase() === 'cookie')) {
+      headers['Cookie'] = cookie;
+    }
+    return headers;
+  }
+
+  /**
+   * Headers for an axios request to `url`, plus a redirect hook that stores
+   * each hop's cookies and swaps in the headers for the next host, and
+   * `storeCookies` for the final response. Cookies from sites that are not
+   * configured, or set in reply to per-request headers, go into a jar that
+   * lasts only for this request. `credentialed` tells whether any hop so
+   * far was sent credentials; cookies from that request jar do not count.
+   */
+  requestConfig(url: string, request?: RequestHeaders): {
+    headers: Record<string, string>;
+    beforeRedirect: (options: Record<string, any>, response?: { headers: Record<string, string | string[]> }, previous?: { url: string }) => void;
+    storeCookies: (url: string, setCookie: string | string[] | undefined) => void;
+    credentialed: () => boolean;
+  } {
+    const scoped = new CookieJar();
+    const storeCookies = (from: string, setCookie: string | string[] | undefined) => {
+      const host = hostnameOf(from);
+      (host && this.persists(host, request) ? this.jar : scoped).setCookies(from, setCookie);
+    };
+    const headersFor = (target: string) => {
+      const headers = this.headersFor(target, request);
+      const cookie = scoped.header(target);
+      const credentialed = Object.keys(headers).length > 0;
+      if (cookie && !Object.keys(headers).some(name => name.toLowerCase() === 'cookie')) headers['Cookie'] = cookie;
+      return { headers, credentialed };
+    };
+
+    const first = headersFor(url);
+    let injected = Object.keys(first.headers);
+    let credentialed = first.credentialed;
+    return {
+      headers: first.headers,
+      credentialed: () => credentialed,
+      storeCookies,
+      beforeRedirect: (options, response, previous) => {
+        if (response && previous) storeCookies(previous.url, response.headers['set-cookie']);
+        const remaining = Object.fromEntries(Object.entries(options.headers as Record<string, string> || {}).filter(([name]) =>
+          !injected.some(added => added.toLowerCase() === name.toLowerCase())
+        ));
+        const next = headersFor(options.href);
+        options.headers = mergeHeaders(remaining, next.headers);
+        injected = Object.keys(next.headers);
+        credentialed ||= next.credentialed;
+      },
+    };
+  }
+
+  /**
+   * Prepare a pooled browser session for loading `url`: copy the jar into the
+   * browser, override the user agent, and rewrite requests to hosts with
+   * headers or auth profiles, failing any `checkRequest` refuses. The
+   * returned function undoes the session changes and stores the cookies the
+   * page set for configured sites back into the jar.
+   */
+  async attachBrowser(
+    driver: WebDriver,
+    url: string,
+    options: {
+      request?: RequestHeaders;
+      userAgent?: string;
+      defaultUserAgent: string;
+      /** Answers proxy authentication challenges by proxy origin. */
+      proxyAuth?: (origin: string) => { username: string; password: string } | undefined;
+      /** Rejects requests the page may not make; they fail as blocked by the client. */
+      checkRequest?: (url: string) => Promise<void>;
+    }
+  ): Promise<() => Promise<void>> {
+    const devtools = driver as chrome.Driver;
+
+    await this.ready();
+    const cookies = this.jar.all();
+    if (cookies.length > 0) {
+      await devtools.sendDevToolsCommand('Network.setCookies', { cookies: cookies.map(toCdpCookie) });
+    }
+    if (options.userAgent) {
+      await devtools.sendDevToolsCommand('Emulation.setUserAgentOverride', { userAgent: options.userAgent });
+    }
+    const stopIntercepting = this.headerRules.length > 0 || this.authRules.length > 0 || options.request || options.proxyAuth || options.checkRequest
+      ? await this.interceptRequests(driver, options)
+      : undefined;
+
+    return async () => {
+      try {
+        const visited = [url];
+        const current = await driver.getCurrentUrl().catch(() => undefined);
+        if (current && /^https?:/.test(current)) visited.push(current);
+        const result = await devtools.sendAndGetDevToolsCommand('Network.getCookies', { urls: visited }) as unknown as { cookies?: CdpCookie[] };
+        this.jar.add((result?.cookies || []).map(fromCdpCookie).filter(cookie => this.persists(cookie.domain, options.request)));
+      } catch (error) {
+        console.error('Could not read cookies back from the browser:', error);
+      } finally {
+        await stopIntercepting?.();
+        if (options.userAgent) {
+          await devtools.sendDevToolsCommand('Emulation.setUserAgentOverride', { userAgent: options.defaultUserAgent });
+        }
+      }
+    };
+  }
+
+  /**
+   * Whether cookies `host` sets belong in the shared jar: it already holds
+   * cookies for the host, loaded from the cookie file or kept from an earlier
+   * login, or the host has configured headers or an auth profile. Replies to
+   * per-request headers are never kept, as they belong to that caller.
+   */
+  private persists(host: string, request?: RequestHeaders): boolean {
+    if (request && hostnameOf(request.url) === host) return false;
+    return this.jar.covers(host)
+      || this.headerRules.some(rule => rule.pattern.test(host))
+      || this.authRules.some(rule => rule.pattern.test(host));
+  }
+
+  private staticHeadersFor(url: string, request?: RequestHeaders): Record<string, string> {
+    const host = hostnameOf(url);
+    if (!host) return {};
+
+    const headers: Record<string, string> = {};
+    for (const rule of this.headerRules) {
+      if (rule.pattern.test(host)) Object.assign(headers, rule.value);
+    }
+    const profile = this.authRules.find(rule => rule.pattern.test(host))?.value;
+    if (profile) headers['Authorization'] = authorization(profile);
+    if (request && hostnameOf(request.url) === host) {
+      return mergeHeaders(headers, request.headers);
+    }
+    return headers;
+  }
+
+  /**
+   * Pause every request the page makes through the DevTools Fetch domain and
+   * continue it with the headers configured for its host, answering basic
+   * auth challenges from the matching profile and proxy challenges from
+   * `proxyAuth`. Requests `checkRequest` rejects are failed instead.
+   */
+  private async interceptRequests(
+    driver: WebDriver,
+    { request, proxyAuth, checkRequest }: {
+      request?: RequestHeaders;
+      proxyAuth?: (origin: string) => { username: string; password: string } | undefined;
+      checkRequest?: (url: string) => Promise<void>;
+    }
+  ): Promise<() => Promise<void>> {
+    const cdpDriver = driver as unknown as CdpDriver;
+    const connection = await cdpDriver.createCDPConnection('page');
+    const socket = cdpDriver._cdpWsConnection;
+    const answered = new Set<string>();
+
+    const send = (method: string, params: Record<string, unknown>) =>
+      connection.execute(method, params, error => {
+        if (error) console.error(`DevTools ${method} failed:`, error.message);
+      });
+
+    const listener = (data: Buffer) => {
+      let message: CdpMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      const params = message.params || {};
+
+      if (message.method === 'Fetch.requestPaused') {
+        const resume = () => {
+          const extra = this.staticHeadersFor(params.request.url, request);
+          if (Object.keys(extra).length === 0) {
+            send('Fetch.continueRequest', { requestId: params.requestId });
+            return;
+          }
+          const merged = mergeHeaders(params.request.headers, extra);
+          send('Fetch.continueRequest', {
+            requestId: params.requestId,
+            headers: Object.entries(merged).map(([name, value]) => ({ name, value: String(value) })),
+          });
+        };
+        if (!checkRequest) {
+          resume();
+          return;
+        }
+        checkRequest(params.request.url).then(resume, error => {
+          console.error(`Blocked browser request to ${params.request.url}:`, error instanceof Error ? error.message : error);
+          send('Fetch.failRequest', { requestId: params.requestId, errorReason: 'BlockedByClient' });
+        });
+      } else if (message.method === 'Fetch.authRequired') {
+        const host = hostnameOf(params.request.url);
+        const profile = host ? this.authRules.find(rule => rule.pattern.test(host))?.value : undefined;
+        const login = params.authChallenge?.source === 'Proxy'
+          ? proxyAuth?.(params.authChallenge.origin)
+          : profile?.type === 'basic' ? profile : undefined;
+        // Answer once per request, so rejected credentials end in the server's 401 rather than a loop
+        const response = login && !answered.has(params.requestId)
+          ? { response: 'ProvideCredentials', username: login.username, password: login.password }
+          : { response: 'CancelAuth' };
+        answered.add(params.requestId);
+        send('Fetch.continueWithAuth', { requestId: params.requestId, authChallengeResponse: response });
+      }
+    };
+
+    socket.on('message', listener);
+    await connection.send('Fetch.enable', { patterns: [{ urlPattern: '*' }], handleAuthRequests: true });
+
+    return async () => {
+      try {
+        await connection.send('Fetch.disable', {});
+      } finally {
+        socket.off('message', listener);
+        socket.close();
+      }
+    };
+  }
+}
+
+/**
+ * Validate headers supplied as tool arguments.
+ */
+export function parseRequestHeaders(input: unknown): Record<string, string> | undefined {
+  if (input === undefined) return undefined;
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('headers must be an object of header names to values');
+  }
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(input)) {
+    if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) throw new Error(`Invalid header name: ${name}`);
+    if (typeof value !== 'string' || /[\r\n]/.test(value)) throw new Error(`Header ${name} must be a single-line string`);
+    headers[name] = value;
+  }
+  return headers;
+}
+
+/**
+ * Copy of `base` with `overrides` applied, matching header names case-insensitively.
+ */
+export function mergeHeaders(base: Record<string, string>, overrides: Record<string, string>): Record<string, string> {
+  const merged = { ...base };
+  for (const [name, value] of Object.entries(overrides)) {
+    for (const existing of Object.keys(merged)) {
+      if (existing.toLowerCase() === name.toLowerCase()) delete merged[existing];
+    }
+    merged[name] = value;
+  }
+  return merged;
+}
+
+function validateProfile(glob: string, profile: AuthProfile): void {
+  if (profile?.type === 'basic' && typeof profile.username === 'string' && typeof profile.password === 'string') return;
+  if (profile?.type === 'bearer' && typeof profile.token === 'string' && profile.token) return;
+  throw new Error(`Auth profile for ${glob} must be { type: "basic", username, password } or { type: "bearer", token }`);
+}
+
+function authorization(profile: AuthProfile): string {
+  return profile.type === 'basic'
+    ? `Basic ${Buffer.from(`${profile.username}:${profile.password}`).toString('base64')}`
+    : `Bearer ${profile.token}`;
+}
+
+/**
+ * Compile a host glob where `*` matches any run of characters.
+ */
+function compileHostGlob(glob: string): RegExp {
+  const body = glob
+    .trim()
+    .toLowerCase()
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}$`);
+}
+
+function hostnameOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+function toCdpCookie(cookie: Cookie): Record<string, unknown> {
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    // A URL rather than a domain makes the browser store a host-only cookie
+    ...(cookie.hostOnly
+      ? { url: `${cookie.secure ? 'https' : 'http'}://${cookie.domain}${cookie.path}` }
+      : { domain: `.${cookie.domain}` }),
+    path: cookie.path,
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+    ...(cookie.expires !== undefined ? { expires: cookie.expires } : {}),
+  };
+}
+
+function fromCdpCookie(cookie: CdpCookie): Cookie {
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain.replace(/^\./, '').toLowerCase(),
+    hostOnly: !cookie.domain.startsWith('.'),
+    path: cookie.path || '/',
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+    expires: cookie.session || cookie.expires <= 0 ? undefined : Math.floor(cookie.expires),
+  };
+}
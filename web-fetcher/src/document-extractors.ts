@@ -0,0 +1,461 @@
+import * as cheerio from 'cheerio';
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+import { DocumentFormat, decodeText } from './content-type.js';
+import { renderMarkdownTable } from './markdown-table.js';
+import { extractPdf } from './pdf-extractor.js';
+import type { Ocr } from './ocr.js';
+
+export type HtmlToMarkdown = (html: string) => string;
+
+const MAX_SHEET_ROWS = 1000;
+const MAX_SHEET_COLUMNS = 256;
+const MAX_REPEAT = 256;
+
+export interface DocumentOptions {
+  toMarkdown: HtmlToMarkdown;
+  pages?: string;
+  ocr?: Ocr;
+  ocrLanguages?: string[];
+}
+
+export interface DocumentExtraction {
+  content: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Convert a downloaded document to markdown. `toMarkdown` is used for formats
+ * whose content is HTML (EPUB chapters); `pages` limits PDFs to a page range,
+ * and `ocr` reads PDF pages that have no text layer.
+ */
+export async function extractDocument(buffer: Buffer, format: DocumentFormat, options: DocumentOptions): Promise<DocumentExtraction> {
+  switch (format) {
+    case 'pdf':
+      return extractPdf(buffer, options);
+    case 'docx':
+      return { content: (await mammoth.extractRawText({ buffer })).value };
+    case 'doc':
+      return { content: buffer.toString('utf8') };
+    case 'pptx':
+      return { content: await extractPptx(buffer) };
+    case 'ppt':
+      return { content: extractLegacyPpt(buffer) };
+    case 'xlsx':
+      return { content: await extractXlsx(buffer) };
+    case 'csv':
+      return { content: extractCsv(decodeText(buffer)) };
+    case 'odt':
+      return { content: await extractOdt(buffer) };
+    case 'ods':
+      return { content: await extractOds(buffer) };
+    case 'odp':
+      return { content: await extractOdp(buffer) };
+    case 'epub':
+      return { content: await extractEpub(buffer, options.toMarkdown) };
+  }
+}
+
+async function readXml(zip: JSZip, path: string): Promise<cheerio.CheerioAPI | null> {
+  const file = zip.file(path);
+  if (!file) return null;
+  return cheerio.load(await file.async('string'), { xml: true });
+}
+
+function numericSuffix(path: string): number {
+  return parseInt(path.match(/(\d+)\.xml$/)?.[1] || '0', 10);
+}
+
+function resolvePath(base: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+
+  const parts = base.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+function paragraphs($: cheerio.CheerioAPI, scope: cheerio.Cheerio<any>, selector: string, textSelector: string): string[] {
+  return scope.find(selector).toArray()
+    .map(p => $(p).find(textSelector).toArray().map(t => $(t).text()).join('').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Slides become `## Slide N: Title` sections with body text as bullets and
+ * speaker notes (linked through the slide relationships) appended.
+ */
+async function extractPptx(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const slidePaths = Object.keys(zip.files)
+    .filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => numericSuffix(a) - numericSuffix(b));
+
+  const sections: string[] = [];
+  for (const [index, slidePath] of slidePaths.entries()) {
+    const $ = await readXml(zip, slidePath);
+    if (!$) continue;
+
+    let title = '';
+    const body: string[] = [];
+    $('p\\:sp').each((_, shape) => {
+      const placeholder = $(shape).find('p\\:ph').attr('type');
+      const texts = paragraphs($, $(shape), 'a\\:p', 'a\\:t');
+      if ((placeholder === 'title' || placeholder === 'ctrTitle') && !title) {
+        title = texts.join(' ');
+      } else {
+        body.push(...texts);
+      }
+    });
+    $('a\\:tbl').each((_, table) => {
+      const rows = $(table).find('a\\:tr').toArray().map(row =>
+        $(row).find('a\\:tc').toArray().map(cell => paragraphs($, $(cell), 'a\\:p', 'a\\:t').join(' '))
+      );
+      body.push('', renderMarkdownTable(rows), '');
+    });
+
+    const lines = [`## Slide ${index + 1}${title ? `: ${title}` : ''}`, ''];
+    lines.push(...body.map(text => (text && !text.startsWith('|') ? `- ${text}` : text)));
+
+    const notes = await pptxNotes(zip, slidePath);
+    if (notes) {
+      lines.push('', `**Speaker notes:** ${notes}`);
+    }
+    sections.push(lines.join('\n').trim());
+  }
+
+  return sections.join('\n\n');
+}
+
+async function pptxNotes(zip: JSZip, slidePath: string): Promise<string> {
+  const relsPath = slidePath.replace(/slides\/(slide\d+\.xml)$/, 'slides/_rels/$1.rels');
+  const rels = await readXml(zip, relsPath);
+  const target = rels?.('Relationship').toArray()
+    .map(rel => rels(rel))
+    .find(rel => (rel.attr('Type') || '').endsWith('/notesSlide'))
+    ?.attr('Target');
+  if (!target) return '';
+
+  const $ = await readXml(zip, resolvePath(slidePath, target));
+  if (!$) return '';
+
+  const body = $('p\\:sp').toArray().filter(shape => $(shape).find('p\\:ph').attr('type') === 'body');
+  return body.flatMap(shape => paragraphs($, $(shape), 'a\\:p', 'a\\:t')).join(' ');
+}
+
+/**
+ * Legacy binary PowerPoint: scan for TextCharsAtom (UTF-16) and TextBytesAtom
+ * (Latin-1) records. Slide boundaries are not recoverable this way.
+ */
+function extractLegacyPpt(buffer: Buffer): string {
+  const texts: string[] = [];
+  for (let offset = 0; offset + 8 <= buffer.length; offset++) {
+    const recType = buffer.readUInt16LE(offset + 2);
+    if (recType !== 0x0fa0 && recType !== 0x0fa8) continue;
+    if ((buffer.readUInt16LE(offset) & 0x000f) !== 0) continue;
+
+    const length = buffer.readUInt32LE(offset + 4);
+    if (length === 0 || length > 65536 || offset + 8 + length > buffer.length) continue;
+
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    const text = (recType === 0x0fa0 ? data.toString('utf16le') : data.toString('latin1'))
+      .replace(/\r/g, '\n')
+      .trim();
+    if (text && !/[\x00-\x08\x0e-\x1f]/.test(text)) {
+      texts.push(text);
+    }
+    offset += 7 + length;
+  }
+  return texts.join('\n\n');
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function trimGrid(rows: string[][]): string[][] {
+  const trimmed = rows.map(row => {
+    const copy = [...row];
+    while (copy.length > 0 && !copy[copy.length - 1]) copy.pop();
+    return copy;
+  });
+  while (trimmed.length > 0 && trimmed[trimmed.length - 1].length === 0) trimmed.pop();
+  return trimmed;
+}
+
+/**
+ * `hidden` counts rows with content that were dropped before the grid was
+ * built, for the note below the table.
+ */
+function renderSheet(name: string, rows: string[][], hidden = 0): string {
+  const grid = trimGrid(rows);
+  if (grid.length === 0) return `## Sheet: ${name}\n\n*(empty)*`;
+
+  const shown = grid.slice(0, MAX_SHEET_ROWS);
+  const more = grid.length - shown.length + hidden;
+  const note = more > 0 ? `\n\n*(${more} more rows not shown)*` : '';
+  return `## Sheet: ${name}\n\n${renderMarkdownTable(shown)}${note}`;
+}
+
+/**
+ * Each worksheet becomes a `## Sheet: name` section holding a markdown table;
+ * the first row is used as the header. Cell positions come from the file, so
+ * rows and columns past the sheet limits are skipped rather than padded out.
+ */
+async function extractXlsx(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const workbook = await readXml(zip, 'xl/workbook.xml');
+  const rels = await readXml(zip, 'xl/_rels/workbook.xml.rels');
+  if (!workbook) return '';
+
+  const targets = new Map<string, string>();
+  rels?.('Relationship').each((_, rel) => {
+    targets.set(rels(rel).attr('Id') || '', rels(rel).attr('Target') || '');
+  });
+
+  const sharedStrings: string[] = [];
+  const shared = await readXml(zip, 'xl/sharedStrings.xml');
+  shared?.('si').each((_, si) => {
+    sharedStrings.push(shared(si).find('t').toArray().map(t => shared(t).text()).join(''));
+  });
+
+  const sections: string[] = [];
+  for (const sheet of workbook('sheet').toArray()) {
+    const name = workbook(sheet).attr('name') || 'Sheet';
+    const target = targets.get(workbook(sheet).attr('r:id') || '');
+    if (!target) continue;
+
+    const $ = await readXml(zip, resolvePath('xl/workbook.xml', target));
+    if (!$) continue;
+
+    const rows: string[][] = [];
+    let hidden = 0;
+    $('sheetData row').each((rowIndex, row) => {
+      const position = parseInt($(row).attr('r') || '', 10) - 1;
+      const rowNumber = position >= 0 ? position : rowIndex;
+      if (rowNumber >= MAX_SHEET_ROWS) {
+        if ($(row).find('c v, c is t').text().trim()) hidden++;
+        return;
+      }
+      const cells: string[] = [];
+      $(row).find('c').each((cellIndex, c) => {
+        const cell = $(c);
+        const type = cell.attr('t');
+        const value = cell.find('v').first().text();
+        let text: string;
+        if (type === 's') text = sharedStrings[parseInt(value, 10)] || '';
+        else if (type === 'inlineStr') text = cell.find('is t').toArray().map(t => $(t).text()).join('');
+        else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+        else text = value;
+
+        const ref = cell.attr('r');
+        const column = ref ? columnIndex(ref) : cellIndex;
+        if (column < MAX_SHEET_COLUMNS) cells[column] = text;
+      });
+      rows[rowNumber] = Array.from(cells, value => value || '');
+    });
+
+    sections.push(renderSheet(name, Array.from(rows, row => row || []), hidden));
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * RFC 4180-style CSV parsing with quoted fields; the delimiter (comma,
+ * semicolon or tab) is picked from the first line.
+ */
+function extractCsv(text: string): string {
+  const firstLine = text.split('\n', 1)[0];
+  const delimiter = [',', ';', '\t']
+    .map(d => ({ d, count: firstLine.split(d).length }))
+    .sort((a, b) => b.count - a.count)[0].d;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const grid = trimGrid(rows);
+  const shown = grid.slice(0, MAX_SHEET_ROWS);
+  const note = grid.length > shown.length ? `\n\n*(${grid.length - shown.length} more rows not shown)*` : '';
+  return renderMarkdownTable(shown) + note;
+}
+
+function odfText($: cheerio.CheerioAPI, el: any): string {
+  const node = $(el).clone();
+  node.find('text\\:s').replaceWith(' ');
+  node.find('text\\:tab').replaceWith('\t');
+  node.find('text\\:line-break').replaceWith('\n');
+  node.find('office\\:annotation').remove();
+  return node.text().trim();
+}
+
+function odfTable($: cheerio.CheerioAPI, table: any): string[][] {
+  const rows: string[][] = [];
+  $(table).find('table\\:table-row').each((_, row) => {
+    const cells: string[] = [];
+    $(row).children('table\\:table-cell, table\\:covered-table-cell').each((_, cell) => {
+      const text = $(cell).find('text\\:p').toArray().map(p => odfText($, p)).join(' ');
+      cells.push(...Array(repeatCount($(cell).attr('table:number-columns-repeated'), MAX_REPEAT)).fill(text));
+    });
+
+    const empty = cells.every(cell => !cell);
+    const repeat = repeatCount($(row).attr('table:number-rows-repeated'), empty ? 1 : MAX_SHEET_ROWS);
+    for (let i = 0; i < repeat; i++) {
+      rows.push(cells);
+    }
+  });
+  return rows;
+}
+
+/**
+ * A `number-*-repeated` attribute, at most `max`. Files can declare repeats
+ * in the millions, so no repeat is trusted as written.
+ */
+function repeatCount(value: string | undefined, max: number): number {
+  const repeat = parseInt(value || '1', 10);
+  return Math.max(0, Math.min(Number.isNaN(repeat) ? 1 : repeat, max));
+}
+
+function odfBlocks($: cheerio.CheerioAPI, parent: any, depth = 0): string[] {
+  const blocks: string[] = [];
+  $(parent).children().each((_, child) => {
+    const tag = (child as any).tagName;
+    if (tag === 'text:h') {
+      const level = parseInt($(child).attr('text:outline-level') || '1', 10);
+      blocks.push(`${'#'.repeat(Math.min(level, 6))} ${odfText($, child)}`);
+    } else if (tag === 'text:p') {
+      const text = odfText($, child);
+      if (text) blocks.push(text);
+    } else if (tag === 'text:list') {
+      $(child).children('text\\:list-item').each((_, item) => {
+        const [first, ...rest] = odfBlocks($, item, depth + 1);
+        if (first !== undefined) blocks.push(`${'  '.repeat(depth)}- ${first.trim()}`, ...rest);
+      });
+    } else if (tag === 'table:table') {
+      blocks.push(renderMarkdownTable(trimGrid(odfTable($, child))));
+    } else if (tag === 'text:section' || tag === 'text:list-header') {
+      blocks.push(...odfBlocks($, child, depth));
+    }
+  });
+  return blocks;
+}
+
+async function extractOdt(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const $ = await readXml(zip, 'content.xml');
+  if (!$) return '';
+  return odfBlocks($, $('office\\:text').get(0)).join('\n\n');
+}
+
+async function extractOds(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const $ = await readXml(zip, 'content.xml');
+  if (!$) return '';
+
+  return $('office\\:spreadsheet > table\\:table').toArray()
+    .map(table => renderSheet($(table).attr('table:name') || 'Sheet', odfTable($, table)))
+    .join('\n\n');
+}
+
+async function extractOdp(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const $ = await readXml(zip, 'content.xml');
+  if (!$) return '';
+
+  return $('draw\\:page').toArray().map((page, index) => {
+    let title = '';
+    const body: string[] = [];
+    $(page).children('draw\\:frame').each((_, frame) => {
+      const texts = $(frame).find('text\\:p').toArray().map(p => odfText($, p)).filter(Boolean);
+      if ($(frame).attr('presentation:class') === 'title' && !title) {
+        title = texts.join(' ');
+      } else {
+        body.push(...texts);
+      }
+    });
+
+    const lines = [`## Slide ${index + 1}${title ? `: ${title}` : ''}`, '', ...body.map(text => `- ${text}`)];
+    const notes = $(page).find('presentation\\:notes text\\:p').toArray().map(p => odfText($, p)).filter(Boolean);
+    if (notes.length > 0) {
+      lines.push('', `**Speaker notes:** ${notes.join(' ')}`);
+    }
+    return lines.join('\n').trim();
+  }).join('\n\n');
+}
+
+/**
+ * EPUB: follow the OPF spine and render each chapter's XHTML to markdown,
+ * giving untitled chapters a `## Chapter N` heading.
+ */
+async function extractEpub(buffer: Buffer, toMarkdown: HtmlToMarkdown): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const container = await readXml(zip, 'META-INF/container.xml');
+  const opfPath = container?.('rootfile').attr('full-path');
+  if (!opfPath) return '';
+
+  const opf = await readXml(zip, opfPath);
+  if (!opf) return '';
+
+  const manifest = new Map<string, string>();
+  opf('manifest item').each((_, item) => {
+    manifest.set(opf(item).attr('id') || '', opf(item).attr('href') || '');
+  });
+
+  const title = opf('dc\\:title').first().text().trim();
+  const author = opf('dc\\:creator').first().text().trim();
+  const parts: string[] = [];
+  if (title) parts.push(`# ${title}`);
+  if (author) parts.push(`*${author}*`);
+
+  let chapter = 0;
+  for (const itemref of opf('spine itemref').toArray()) {
+    const href = manifest.get(opf(itemref).attr('idref') || '');
+    const file = href ? zip.file(resolvePath(opfPath, decodeURIComponent(href))) : null;
+    if (!file) continue;
+
+    const xhtml = await file.async('string');
+    const markdown = toMarkdown(cheerio.load(xhtml)('body').html() || xhtml).trim();
+    if (!markdown) continue;
+
+    chapter++;
+    parts.push(markdown.startsWith('#') ? markdown : `## Chapter ${chapter}\n\n${markdown}`);
+  }
+
+  return parts.join('\n\n');
+}
@@ -0,0 +1,244 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import { FEED_TYPES, PageFeed, resolveUrl } from './links.js';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export interface FeedItem {
+  title?: string;
+  link?: string;
+  /** ISO 8601; falls back to the item's update time when it has no publication date. */
+  published?: string;
+  author?: string;
+  summary?: string;
+  id?: string;
+}
+
+export interface Feed {
+  format: FeedFormat;
+  title?: string;
+  link?: string;
+  description?: string;
+  items: FeedItem[];
+}
+
+export interface FeedFilter {
+  /** Only items published at or after this time; undated items are dropped. */
+  since?: Date;
+  limit?: number;
+}
+
+const SUMMARY_MAX_LENGTH = 500;
+const FORMAT_NAMES: Record<FeedFormat, string> = { rss: 'RSS', atom: 'Atom', json: 'JSON Feed' };
+const JSON_FEED_VERSION = /^https?:\/\/jsonfeed\.org\/version\//;
+// Feed roots, after an optional XML declaration, comments and processing instructions
+const XML_FEED_ROOT = /^(?:<\?[\s\S]*?\?>\s*|<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<(rss|feed|rdf:RDF)\b/i;
+
+/**
+ * Parse an RSS 2.0 (or RSS 1.0/RDF), Atom or JSON Feed document fetched from
+ * `baseUrl`. Returns undefined when the text is not a feed, so any response
+ * can be offered. Links are resolved against the feed's URL.
+ */
+export function parseFeed(text: string, baseUrl: string): Feed | undefined {
+  const body = text.replace(/^\uFEFF/, '').trimStart();
+  if (body.startsWith('{')) return parseJsonFeed(body, baseUrl);
+
+  const root = XML_FEED_ROOT.exec(body)?.[1].toLowerCase();
+  if (!root) return undefined;
+
+  const $ = cheerio.load(body, { xmlMode: true });
+  return root === 'feed' ? parseAtom($, baseUrl) : parseRss($, baseUrl);
+}
+
+/**
+ * A page's advertised feeds in the order worth trying them: plain
+ * application/json alternates come last, as only their name marks them as
+ * feeds.
+ */
+export function rankFeeds(feeds: PageFeed[]): PageFeed[] {
+  const rank = (feed: PageFeed) => (FEED_TYPES.includes(feed.type) ? FEED_TYPES.indexOf(feed.type) : FEED_TYPES.length);
+  return [...feeds].sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Items newest first, filtered by `since` and cut to `limit`. Undated items
+ * keep their feed order after the dated ones.
+ */
+export function selectItems(items: FeedItem[], filter: FeedFilter = {}): FeedItem[] {
+  const time = (item: FeedItem) => (item.published ? Date.parse(item.published) : NaN);
+  let selected = items
+    .map((item, index) => ({ item, index, time: time(item) }))
+    .sort((a, b) => {
+      if (Number.isNaN(a.time) || Number.isNaN(b.time)) {
+        return Number.isNaN(a.time) === Number.isNaN(b.time) ? a.index - b.index : Number.isNaN(a.time) ? 1 : -1;
+      }
+      return b.time - a.time || a.index - b.index;
+    });
+
+  if (filter.since) {
+    const since = filter.since.getTime();
+    selected = selected.filter(entry => entry.time >= since);
+  }
+  const limited = filter.limit !== undefined ? selected.slice(0, filter.limit) : selected;
+  return limited.map(entry => entry.item);
+}
+
+/**
+ * Render a feed and the chosen items as markdown: a heading per item with its
+ * date, author and summary.
+ */
+export function formatFeed(feed: Feed, items: FeedItem[] = feed.items): string {
+  const lines: string[] = [`# ${feed.title || 'Untitled feed'}`, ''];
+  const about = [feed.link, FORMAT_NAMES[feed.format], `${items.length} of ${feed.items.length} items`].filter(Boolean);
+  lines.push(`*${about.join(' · ')}*`, '');
+  if (feed.description) lines.push(feed.description, '');
+
+  for (const item of items) {
+    const title = escapeText(item.title || item.link || 'Untitled');
+    lines.push(`## ${item.link ? `[${title}](${item.link})` : title}`, '');
+    const details = [item.published, item.author].filter(Boolean);
+    if (details.length > 0) lines.push(`*${details.join(' · ')}*`, '');
+    if (item.summary) lines.push(item.summary, '');
+  }
+  return lines.join('\n').trim();
+}
+
+function parseRss($: cheerio.CheerioAPI, baseUrl: string): Feed {
+  const channel = $('channel').first();
+  // RSS 1.0 keeps items beside the channel rather than inside it
+  const items = $('item').toArray().map(element => {
+    const $item = $(element);
+    const guid = $item.children('guid');
+    const permalink = guid.attr('isPermaLink') !== 'false' && /^https?:/.test(guid.text().trim()) ? guid.text() : undefined;
+    return compact({
+      title: plainText(childText($item, 'title')),
+      link: resolveUrl(childText($item, 'link') || $item.attr('rdf:about') || permalink, baseUrl),
+      published: isoDate(childText($item, 'pubDate') || childText($item, 'dc:date')),
+      author: childText($item, 'dc:creator') || childText($item, 'author'),
+      summary: summarize(childText($item, 'description') || childText($item, 'content:encoded')),
+      id: guid.text().trim() || undefined,
+    });
+  });
+
+  return compact({
+    format: 'rss' as const,
+    title: plainText(childText(channel, 'title')),
+    link: resolveUrl(childText(channel, 'link'), baseUrl),
+    description: summarize(childText(channel, 'description')),
+    items,
+  });
+}
+
+function parseAtom($: cheerio.CheerioAPI, baseUrl: string): Feed {
+  const feed = $('feed').first();
+  const linkOf = ($element: cheerio.Cheerio<Element>) => {
+    const links = $element.children('link');
+    const alternate = links.filter((_, link) => ($(link).attr('rel') || 'alternate') === 'alternate').first();
+    return resolveUrl(alternate.attr('href'), baseUrl);
+  };
+  const authorOf = ($element: cheerio.Cheerio<Element>) =>
+    $element.children('author').toArray().map(author => childText($(author), 'name')).filter(Boolean).join(', ') || undefined;
+
+  const feedAuthor = authorOf(feed);
+  const items = feed.children('entry').toArray().map(element => {
+    const $entry = $(element);
+    return compact({
+      title: plainText(childText($entry, 'title')),
+      link: linkOf($entry),
+      published: isoDate(childText($entry, 'published') || childText($entry, 'updated')),
+      // Entries without their own author inherit the feed's
+      author: authorOf($entry) || feedAuthor,
+      summary: summarize(childText($entry, 'summary') || childText($entry, 'content')),
+      id: childText($entry, 'id'),
+    });
+  });
+
+  return compact({
+    format: 'atom' as const,
+    title: plainText(childText(feed, 'title')),
+    link: linkOf(feed),
+    description: summarize(childText(feed, 'subtitle')),
+    items,
+  });
+}
+
+function parseJsonFeed(text: string, baseUrl: string): Feed | undefined {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  if (!data || typeof data.version !== 'string' || !JSON_FEED_VERSION.test(data.version) || !Array.isArray(data.items)) {
+    return undefined;
+  }
+
+  // Version 1.1 lists authors; 1.0 had a single author
+  const authorOf = (source: any) => {
+    const authors = Array.isArray(source?.authors) ? source.authors : source?.author ? [source.author] : [];
+    return authors.map((author: any) => stringOf(author?.name)).filter(Boolean).join(', ') || undefined;
+  };
+  const feedAuthor = authorOf(data);
+
+  return compact({
+    format: 'json' as const,
+    title: stringOf(data.title),
+    link: resolveUrl(stringOf(data.home_page_url), baseUrl),
+    description: summarize(stringOf(data.description)),
+    items: data.items.filter((item: any) => item && typeof item === 'object').map((item: any) => compact({
+      title: stringOf(item.title),
+      link: resolveUrl(stringOf(item.url) || stringOf(item.external_url), baseUrl),
+      published: isoDate(stringOf(item.date_published) || stringOf(item.date_modified)),
+      author: authorOf(item) || feedAuthor,
+      summary: summarize(stringOf(item.summary) || stringOf(item.content_text) || stringOf(item.content_html)),
+      id: item.id !== undefined && item.id !== null ? String(item.id) : undefined,
+    })),
+  });
+}
+
+/**
+ * Text of the first child element named `name`, which may carry a namespace
+ * prefix such as `dc:creator`.
+ */
+function childText($element: cheerio.Cheerio<Element>, name: string): string | undefined {
+  const text = $element.children(name.replace(':', '\\:')).first().text().trim();
+  return text || undefined;
+}
+
+/**
+ * Plain text of a possibly HTML-encoded field, cut to a summary's length at a
+ * word boundary.
+ */
+function summarize(value: string | undefined): string | undefined {
+  const text = plainText(value);
+  if (!text || text.length <= SUMMARY_MAX_LENGTH) return text;
+  const cut = text.slice(0, SUMMARY_MAX_LENGTH);
+  return `${cut.slice(0, Math.max(cut.lastIndexOf(' '), SUMMARY_MAX_LENGTH / 2))}…`;
+}
+
+function plainText(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const text = /[<&]/.test(value) ? cheerio.load(value).text() : value;
+  return text.replace(/\s+/g, ' ').trim() || undefined;
+}
+
+function isoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function stringOf(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Drop undefined fields, so results serialize compactly.
+ */
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/([[\]])/g, '\\$1');
+}
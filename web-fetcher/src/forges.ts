@@ -0,0 +1,692 @@
+import { throwIfAborted } from './abort.js';
+import type { ExtractionResult } from './web-fetcher.js';
+
+export type ForgeKind = 'github' | 'gitlab' | 'gitea';
+
+export interface ForgeConfig {
+  webUrl?: string;
+  apiUrl?: string;
+  token?: string;
+}
+
+export interface ForgesOptions {
+  github?: ForgeConfig;
+  gitlab?: ForgeConfig;
+  gitea?: ForgeConfig;
+  maxEntries?: number;
+  maxComments?: number;
+}
+
+export type ForgeRequest = (url: string, headers: Record<string, string>, signal?: AbortSignal) => Promise<{ body: string; headers: Record<string, any> }>;
+
+interface Forge {
+  kind: ForgeKind;
+  web: URL;
+  api: string;
+  token?: string;
+}
+
+interface RepoRef {
+  forge: Forge;
+  repo: string;
+}
+
+export type ForgeTarget =
+  | (RepoRef & { type: 'repo' })
+  | (RepoRef & { type: 'tree'; ref: string; path: string })
+  | (RepoRef & { type: 'contents'; ref?: string; path: string })
+  | (RepoRef & { type: 'issue' | 'pull'; number: number });
+
+export type ForgeRoute = ForgeTarget | { type: 'raw'; url: string; headers: Record<string, string> };
+
+/** A file URL, before its ref is resolved and it becomes a raw route. */
+type FileTarget = RepoRef & { type: 'file'; ref: string; path: string };
+
+interface TreeEntry {
+  name: string;
+  path: string;
+  dir: boolean;
+  size?: number;
+}
+
+interface Comment {
+  author: string;
+  createdAt: string;
+  body: string;
+  location?: string;
+}
+
+interface Thread {
+  title: string;
+  number: number;
+  state: string;
+  author: string;
+  createdAt: string;
+  body: string;
+  url: string;
+  labels: string[];
+  branches?: string;
+  comments: Comment[];
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * An entry of a GitHub or Gitea contents API directory listing.
+ */
+function contentsEntry(item: any): TreeEntry {
+  return { name: item.name, path: item.path, dir: item.type === 'dir', size: item.type === 'file' ? item.size : undefined };
+}
+
+function forgeFromEnv(kind: ForgeKind, defaultWebUrl: string, defaultApiUrl: (web: string) => string): ForgeConfig {
+  const prefix = kind.toUpperCase();
+  const webUrl = trimSlash(process.env[`${prefix}_URL`] || defaultWebUrl);
+  return {
+    webUrl,
+    apiUrl: trimSlash(process.env[`${prefix}_API_URL`] || defaultApiUrl(webUrl)),
+    token: process.env[`${prefix}_TOKEN`],
+  };
+}
+
+const DEFAULT_FORGES_OPTIONS: Required<ForgesOptions> = {
+  github: forgeFromEnv('github', 'https://github.com', web => (web === 'https://github.com' ? 'https://api.github.com' : `${web}/api/v3`)),
+  gitlab: forgeFromEnv('gitlab', 'https://gitlab.com', web => `${web}/api/v4`),
+  gitea: forgeFromEnv('gitea', 'https://codeberg.org', web => `${web}/api/v1`),
+  maxEntries: parseInt(process.env.FORGE_MAX_ENTRIES || '1000', 10),
+  maxComments: parseInt(process.env.FORGE_MAX_COMMENTS || '200', 10),
+};
+
+// First path segments on github.com that are site pages, not owners
+const GITHUB_RESERVED = new Set([
+  'about', 'apps', 'codespaces', 'collections', 'customer-stories', 'dashboard', 'enterprise', 'events', 'explore',
+  'features', 'issues', 'join', 'login', 'marketplace', 'new', 'notifications', 'orgs', 'organizations', 'pricing',
+  'pulls', 'search', 'security', 'settings', 'site', 'sponsors', 'topics', 'trending', 'users',
+]);
+const GITLAB_RESERVED = new Set(['-', 'admin', 'dashboard', 'explore', 'groups', 'help', 'search', 'users']);
+
+const README_PATTERN = /^readme(\.(md|markdown|mdown|rst|txt|org|adoc))?$/i;
+
+/**
+ * Repository browsing for GitHub, GitLab and Gitea (including self-hosted
+ * instances): repository roots become README plus file listing, directories
+ * are listed through the paginated APIs, issues and pull/merge requests
+ * become markdown threads, and file URLs are routed to raw downloads at the
+ * requested ref. Contents API URLs render like the web pages they mirror.
+ * Tokens are sent only to the forge they belong to.
+ */
+export class Forges {
+  private options: Required<ForgesOptions>;
+  private forges: Forge[];
+  private request: ForgeRequest;
+  /** Refs the API has confirmed, as `api repo ref`. */
+  private knownRefs = new Set<string>();
+
+  constructor(request: ForgeRequest, options: ForgesOptions = {}) {
+    this.request = request;
+    this.options = {
+      ...DEFAULT_FORGES_OPTIONS,
+      ...options,
+      github: { ...DEFAULT_FORGES_OPTIONS.github, ...options.github },
+      gitlab: { ...DEFAULT_FORGES_OPTIONS.gitlab, ...options.gitlab },
+      gitea: { ...DEFAULT_FORGES_OPTIONS.gitea, ...options.gitea },
+    };
+
+    this.forges = (['github', 'gitlab', 'gitea'] as ForgeKind[]).map(kind => {
+      const config = this.options[kind];
+      return { kind, web: new URL(config.webUrl!), api: trimSlash(config.apiUrl!), token: config.token || undefined };
+    });
+  }
+
+  /**
+   * Work out what a URL points at on a known forge. Returns null for URLs that
+   * should be fetched as ordinary pages (wikis, releases, settings, ...).
+   * Refs containing slashes are told apart from the path through the API.
+   */
+  async route(url: string, signal?: AbortSignal): Promise<ForgeRoute | null> {
+    const parsed = this.parse(url);
+    if (parsed?.type !== 'tree' && parsed?.type !== 'file') return parsed;
+
+    const resolved = await this.resolveRef(parsed, signal);
+    return resolved.type === 'file' ? this.rawRoute(resolved, resolved.ref, resolved.path) : resolved;
+  }
+
+  private parse(url: string): ForgeTarget | FileTarget | null {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return null;
+    }
+
+    // Contents API URLs (GitHub and Gitea share the shape) render like the pages they mirror
+    const location = `${target.origin}${target.pathname}`;
+    const api = this.forges.find(f => f.kind !== 'gitlab' && location.startsWith(`${f.api}/repos/`));
+    if (api) {
+      const [owner, name, section, ...rest] = location.slice(`${api.api}/repos/`.length).split('/').filter(Boolean).map(decodeURIComponent);
+      if (!name || section !== 'contents') return null;
+      return { forge: api, repo: `${owner}/${name}`, type: 'contents', ref: target.searchParams.get('ref') || undefined, path: rest.join('/') };
+    }
+
+    const forge = this.forges.find(f => f.web.host === target.host);
+    if (!forge) return null;
+
+    const basePath = trimSlash(forge.web.pathname);
+    if (!target.pathname.startsWith(basePath)) return null;
+    const segments = target.pathname.slice(basePath.length).split('/').filter(Boolean).map(decodeURIComponent);
+
+    switch (forge.kind) {
+      case 'github':
+        return this.routeGitHub(forge, segments);
+      case 'gitlab':
+        return this.routeGitLab(forge, segments);
+      case 'gitea':
+        return this.routeGitea(forge, segments);
+    }
+  }
+
+  /**
+   * Credentials for a request to a configured forge's API, or to GitHub's raw
+   * file host. Web pages on the forge get none, so a token never reaches
+   * the web UI or anything served from its host outside the API.
+   */
+  authHeaders(url: string): Record<string, string> {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return {};
+    }
+
+    const location = `${target.origin}${target.pathname}`;
+    const forge = this.forges.find(f => f.token && (
+      location === f.api || location.startsWith(`${f.api}/`)
+      || (f.kind === 'github' && f.web.host === 'github.com' && target.host === 'raw.githubusercontent.com')
+    ));
+    return forge ? this.tokenHeader(forge) : {};
+  }
+
+  /**
+   * Redirect hook that drops forge tokens from a hop `authHeaders` would not
+   * send them to, such as a redirect off the API or onto another host.
+   */
+  beforeRedirect(options: Record<string, any>): void {
+    const headers: Record<string, string> = options.headers || {};
+    const allowed = this.authHeaders(options.href);
+    for (const forge of this.forges) {
+      for (const [name, value] of Object.entries(this.tokenHeader(forge))) {
+        if (allowed[name] === value) continue;
+        for (const key of Object.keys(headers)) {
+          if (key.toLowerCase() === name.toLowerCase() && headers[key] === value) delete headers[key];
+        }
+      }
+    }
+  }
+
+  async render(target: ForgeTarget, signal?: AbortSignal): Promise<ExtractionResult> {
+    let content: string;
+    let title: string;
+    let finalUrl: string;
+
+    switch (target.type) {
+      case 'repo': {
+        const info = await this.repoInfo(target, signal);
+        const entries = await this.listDirectory(target, info.defaultBranch, '', signal);
+        const readme = entries.find(entry => !entry.dir && README_PATTERN.test(entry.name) && /\.(md|markdown)$/i.test(entry.name))
+          || entries.find(entry => !entry.dir && README_PATTERN.test(entry.name));
+
+        const sections = [`# ${info.name}`];
+        if (info.description) sections.push(info.description);
+        sections.push(info.details.join(' · '));
+        if (readme) {
+          const text = (await this.get(target.forge, this.rawFileUrl(target, info.defaultBranch, readme.path), true, signal)).body;
+          sections.push(`## ${readme.name}`, this.demoteHeadings(text.trim()));
+        }
+        sections.push(`## Files (${info.defaultBranch})`, this.renderEntries(target, info.defaultBranch, entries));
+
+        content = sections.join('\n\n');
+        title = info.name;
+        finalUrl = info.url;
+        break;
+      }
+      case 'tree': {
+        const entries = await this.listDirectory(target, target.ref, target.path, signal);
+        title = `${target.repo}/${target.path}`.replace(/\/$/, '');
+        content = `# ${title} (${target.ref})\n\n${this.renderEntries(target, target.ref, entries)}`;
+        finalUrl = this.webUrl(target, 'tree', target.ref, target.path);
+        break;
+      }
+      case 'contents': {
+        const ref = target.ref || (await this.repoInfo(target, signal)).defaultBranch;
+        const filePath = target.path.split('/').filter(Boolean).map(encodeURIComponent).join('/');
+        const data = await this.json(target.forge, `${target.forge.api}/repos/${target.repo}/contents/${filePath}?ref=${encodeURIComponent(ref)}`, signal);
+        title = `${target.repo}/${target.path}`.replace(/\/$/, '');
+
+        if (Array.isArray(data)) {
+          const entries = this.limitEntries(data.map(contentsEntry), data.length > this.options.maxEntries);
+          content = `# ${title} (${ref})\n\n${this.renderEntries(target, ref, entries)}`;
+          finalUrl = this.webUrl(target, 'tree', ref, target.path);
+        } else if (data?.type === 'file') {
+          // Files over the contents API's size limit come without their content
+          content = data.encoding === 'base64' && data.content
+            ? Buffer.from(data.content, 'base64').toString('utf8')
+            : (await this.get(target.forge, this.rawFileUrl(target, ref, target.path), true, signal)).body;
+          finalUrl = this.webUrl(target, 'blob', ref, target.path);
+        } else {
+          throw new Error(`${target.path} is a ${data?.type || 'unknown entry'}, not a file or directory`);
+        }
+        break;
+      }
+      default: {
+        const thread = await this.thread(target, signal);
+        content = this.renderThread(thread);
+        title = `${thread.title} (#${thread.number})`;
+        finalUrl = thread.url;
+        break;
+      }
+    }
+
+    return {
+      content,
+      method: 'http-api',
+      score: 90,
+      metadata: { title, finalUrl, contentType: 'text/markdown', format: 'forge', forge: target.forge.kind },
+    };
+  }
+
+  private routeGitHub(forge: Forge, segments: string[]): ForgeTarget | FileTarget | null {
+    if (segments.length < 2 || GITHUB_RESERVED.has(segments[0].toLowerCase())) return null;
+
+    const [owner, name, section, ...rest] = segments;
+    const ref: RepoRef = { forge, repo: `${owner}/${name.replace(/\.git$/, '')}` };
+
+    if (!section) return { ...ref, type: 'repo' };
+    if (section === 'tree' && rest.length > 0) return { ...ref, type: 'tree', ref: rest[0], path: rest.slice(1).join('/') };
+    if ((section === 'blob' || section === 'raw') && rest.length > 1) return { ...ref, type: 'file', ref: rest[0], path: rest.slice(1).join('/') };
+    if (section === 'issues' && /^\d+$/.test(rest[0] || '')) return { ...ref, type: 'issue', number: parseInt(rest[0], 10) };
+    if (section === 'pull' && /^\d+$/.test(rest[0] || '')) return { ...ref, type: 'pull', number: parseInt(rest[0], 10) };
+    return null;
+  }
+
+  private routeGitLab(forge: Forge, segments: string[]): ForgeTarget | FileTarget | null {
+    if (segments.length < 2 || GITLAB_RESERVED.has(segments[0])) return null;
+
+    const separator = segments.indexOf('-');
+    const projectPath = separator === -1 ? segments : segments.slice(0, separator);
+    if (projectPath.length < 2) return null;
+
+    const ref: RepoRef = { forge, repo: projectPath.join('/').replace(/\.git$/, '') };
+    if (separator === -1) return { ...ref, type: 'repo' };
+
+    const [section, ...rest] = segments.slice(separator + 1);
+    if (section === 'tree' && rest.length > 0) return { ...ref, type: 'tree', ref: rest[0], path: rest.slice(1).join('/') };
+    if ((section === 'blob' || section === 'raw') && rest.length > 1) return { ...ref, type: 'file', ref: rest[0], path: rest.slice(1).join('/') };
+    if (section === 'issues' && /^\d+$/.test(rest[0] || '')) return { ...ref, type: 'issue', number: parseInt(rest[0], 10) };
+    if (section === 'merge_requests' && /^\d+$/.test(rest[0] || '')) return { ...ref, type: 'pull', number: parseInt(rest[0], 10) };
+    return null;
+  }
+
+  private routeGitea(forge: Forge, segments: string[]): ForgeTarget | FileTarget | null {
+    if (segments.length < 2 || ['explore', 'user', 'org', 'api', 'admin'].includes(segments[0])) return null;
+
+    const [owner, name, section, ...rest] = segments;
+    const ref: RepoRef = { forge, repo: `${owner}/${name.replace(/\.git$/, '')}` };
+
+    if (!section) return { ...ref, type: 'repo' };
+
+    // Gitea URLs qualify the ref: /src/branch/main/..., /raw/tag/v1/..., /src/commit/<sha>/...
+    const qualified = ['branch', 'tag', 'commit'].includes(rest[0]) ? rest.slice(1) : rest;
+    if (section === 'src' && qualified.length > 0) {
+      return { ...ref, type: 'tree', ref: qualified[0], path: qualified.slice(1).join('/') };
+    }
+    if (section === 'raw' && qualified.length > 1) return { ...ref, type: 'file', ref: qualified[0], path: qualified.slice(1).join('/') };
+    if (section === 'issues' && /^\d+$/.test(rest[0] || '')) return { ...ref, type: 'issue', number: parseInt(rest[0], 10) };
+    if (section === 'pulls' && /^\d+$/.test(rest[0] || '')) return { ...ref, type: 'pull', number: parseInt(rest[0], 10) };
+    return null;
+  }
+
+  /**
+   * Split a URL's `ref/path` segments, as in `/tree/feature/x/src`, at the
+   * shortest prefix the API knows as a ref. Without a match the first
+   * segment stays the ref.
+   */
+  private async resolveRef<T extends (ForgeTarget & { type: 'tree' }) | FileTarget>(target: T, signal?: AbortSignal): Promise<T> {
+    const segments = [target.ref, ...target.path.split('/').filter(Boolean)];
+    // A file keeps at least its name; raw.githubusercontent.com splits refs itself
+    const last = target.type === 'file' ? segments.length - 1 : segments.length;
+    if (last <= 1 || /^[0-9a-f]{40}$/i.test(target.ref) || (target.type === 'file' && target.forge.web.host === 'github.com')) {
+      return target;
+    }
+
+    for (let end = 1; end <= last; end++) {
+      const ref = segments.slice(0, end).join('/');
+      if (await this.refExists(target, ref, signal)) {
+        return { ...target, ref, path: segments.slice(end).join('/') };
+      }
+    }
+    return target;
+  }
+
+  private async refExists(target: RepoRef, ref: string, signal?: AbortSignal): Promise<boolean> {
+    const { forge, repo } = target;
+    const key = `${forge.api} ${repo} ${ref}`;
+    if (this.knownRefs.has(key)) return true;
+
+    const headers = this.tokenHeader(forge);
+    let url: string;
+    switch (forge.kind) {
+      case 'github':
+        // Only the SHA, not the commit with its diff
+        headers['Accept'] = 'application/vnd.github.sha';
+        url = `${forge.api}/repos/${repo}/commits/${encodeURIComponent(ref)}`;
+        break;
+      case 'gitlab':
+        url = `${forge.api}/projects/${encodeURIComponent(repo)}/repository/commits/${encodeURIComponent(ref)}`;
+        break;
+      case 'gitea':
+        url = `${forge.api}/repos/${repo}/git/commits/${encodeURIComponent(ref)}?stat=false&files=false`;
+        break;
+    }
+
+    try {
+      await this.request(url, headers, signal);
+    } catch {
+      throwIfAborted(signal);
+      return false;
+    }
+    this.knownRefs.add(key);
+    return true;
+  }
+
+  private rawRoute(target: RepoRef, ref: string, path: string): ForgeRoute {
+    const headers = this.tokenHeader(target.forge);
+    if (target.forge.kind === 'github' && target.forge.web.host !== 'github.com') {
+      headers['Accept'] = 'application/vnd.github.raw';
+    }
+    return { type: 'raw', url: this.rawFileUrl(target, ref, path), headers };
+  }
+
+  private rawFileUrl(target: RepoRef, ref: string, path: string): string {
+    const { forge, repo } = target;
+    const filePath = path.split('/').map(encodeURIComponent).join('/');
+
+    switch (forge.kind) {
+      case 'github':
+        return forge.web.host === 'github.com'
+          ? `https://raw.githubusercontent.com/${repo}/${ref.split('/').map(encodeURIComponent).join('/')}/${filePath}`
+          : `${forge.api}/repos/${repo}/contents/${filePath}?ref=${encodeURIComponent(ref)}`;
+      case 'gitlab':
+        return `${forge.api}/projects/${encodeURIComponent(repo)}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(ref)}`;
+      case 'gitea':
+        return `${forge.api}/repos/${repo}/raw/${filePath}?ref=${encodeURIComponent(ref)}`;
+    }
+  }
+
+  private webUrl(target: RepoRef, kind: 'tree' | 'blob', ref: string, path: string): string {
+    const base = `${trimSlash(target.forge.web.href)}/${target.repo}`;
+    const suffix = path ? `/${path}` : '';
+
+    switch (target.forge.kind) {
+      case 'github':
+        return `${base}/${kind}/${ref}${suffix}`;
+      case 'gitlab':
+        return `${base}/-/${kind}/${ref}${suffix}`;
+      case 'gitea':
+        return `${base}/src/${/^[0-9a-f]{40}$/.test(ref) ? 'commit' : 'branch'}/${ref}${suffix}`;
+    }
+  }
+
+  private tokenHeader(forge: Forge): Record<string, string> {
+    if (!forge.token) return {};
+    switch (forge.kind) {
+      case 'github':
+        return { 'Authorization': `Bearer ${forge.token}` };
+      case 'gitlab':
+        return { 'PRIVATE-TOKEN': forge.token };
+      case 'gitea':
+        return { 'Authorization': `token ${forge.token}` };
+    }
+  }
+
+  private get(forge: Forge, url: string, raw = false, signal?: AbortSignal) {
+    const headers = this.tokenHeader(forge);
+    if (forge.kind === 'github') {
+      headers['Accept'] = raw ? 'application/vnd.github.raw' : 'application/vnd.github+json';
+    }
+    return this.request(url, headers, signal);
+  }
+
+  private async json(forge: Forge, url: string, signal?: AbortSignal): Promise<any> {
+    return JSON.parse((await this.get(forge, url, false, signal)).body);
+  }
+
+  /**
+   * Follow `Link: rel="next"` headers (all three forges paginate this way)
+   * until `limit` items have been collected.
+   */
+  private async paginate(forge: Forge, url: string, limit: number, signal?: AbortSignal): Promise<{ items: any[]; truncated: boolean }> {
+    const items: any[] = [];
+    let next: string | undefined = url;
+
+    while (next && items.length < limit) {
+      const response = await this.get(forge, next, false, signal);
+      items.push(...JSON.parse(response.body));
+      next = String(response.headers['link'] || '').match(/<([^>]+)>;\s*rel="next"/)?.[1];
+    }
+    return { items: items.slice(0, limit), truncated: Boolean(next) || items.length > limit };
+  }
+
+  private async repoInfo(target: RepoRef, signal?: AbortSignal): Promise<{ name: string; description: string; defaultBranch: string; url: string; details: string[] }> {
+    const { forge, repo } = target;
+
+    if (forge.kind === 'gitlab') {
+      const project = await this.json(forge, `${forge.api}/projects/${encodeURIComponent(repo)}?license=true`, signal);
+      return {
+        name: project.path_with_namespace,
+        description: project.description || '',
+        defaultBranch: project.default_branch,
+        url: project.web_url,
+        details: [
+          `**Default branch:** ${project.default_branch}`,
+          `**Stars:** ${project.star_count}`,
+          ...(project.license?.nickname || project.license?.name ? [`**License:** ${project.license.nickname || project.license.name}`] : []),
+        ],
+      };
+    }
+
+    const data = await this.json(forge, `${forge.api}/repos/${repo}`, signal);
+    const stars = forge.kind === 'github' ? data.stargazers_count : data.stars_count;
+    const license = data.license?.spdx_id || data.licenses?.[0];
+    return {
+      name: data.full_name,
+      description: data.description || '',
+      defaultBranch: data.default_branch,
+      url: data.html_url,
+      details: [
+        `**Default branch:** ${data.default_branch}`,
+        `**Stars:** ${stars}`,
+        ...(license && license !== 'NOASSERTION' ? [`**License:** ${license}`] : []),
+        ...(data.topics?.length ? [`**Topics:** ${data.topics.join(', ')}`] : []),
+      ],
+    };
+  }
+
+  private async listDirectory(target: RepoRef, ref: string, path: string, signal?: AbortSignal): Promise<TreeEntry[] & { truncated?: boolean }> {
+    const { forge, repo } = target;
+    const limit = this.options.maxEntries;
+    let entries: TreeEntry[];
+    let truncated = false;
+
+    switch (forge.kind) {
+      case 'github': {
+        // The git trees API has no 1000-entry cap, unlike the contents API
+        const treeish = path ? `${ref}:${path}` : ref;
+        const data = await this.json(forge, `${forge.api}/repos/${repo}/git/trees/${treeish.split('/').map(encodeURIComponent).join('/')}`, signal);
+        entries = data.tree.map((item: any) => ({
+          name: item.path,
+          path: path ? `${path}/${item.path}` : item.path,
+          dir: item.type === 'tree',
+          size: item.size,
+        }));
+        truncated = Boolean(data.truncated) || entries.length > limit;
+        break;
+      }
+      case 'gitlab': {
+        const url = `${forge.api}/projects/${encodeURIComponent(repo)}/repository/tree?ref=${encodeURIComponent(ref)}&path=${encodeURIComponent(path)}&per_page=100`;
+        const page = await this.paginate(forge, url, limit, signal);
+        entries = page.items.map((item: any) => ({ name: item.name, path: item.path, dir: item.type === 'tree' }));
+        truncated = page.truncated;
+        break;
+      }
+      case 'gitea': {
+        const contentsPath = path ? `/${path.split('/').map(encodeURIComponent).join('/')}` : '';
+        const data = await this.json(forge, `${forge.api}/repos/${repo}/contents${contentsPath}?ref=${encodeURIComponent(ref)}`, signal);
+        if (!Array.isArray(data)) {
+          throw new Error(`${path} is a file, not a directory`);
+        }
+        entries = data.map(contentsEntry);
+        truncated = entries.length > limit;
+        break;
+      }
+    }
+
+    return this.limitEntries(entries, truncated);
+  }
+
+  /**
+   * Directories first, then by name, cut to `maxEntries`.
+   */
+  private limitEntries(entries: TreeEntry[], truncated: boolean): TreeEntry[] & { truncated?: boolean } {
+    const sorted = entries
+      .sort((a, b) => Number(b.dir) - Number(a.dir) || a.name.localeCompare(b.name))
+      .slice(0, this.options.maxEntries);
+    return Object.assign(sorted, { truncated });
+  }
+
+  private renderEntries(target: RepoRef, ref: string, entries: TreeEntry[] & { truncated?: boolean }): string {
+    if (entries.length === 0) return '*Empty directory*';
+
+    const lines = entries.map(entry => {
+      const url = this.webUrl(target, entry.dir ? 'tree' : 'blob', ref, entry.path);
+      if (entry.dir) return `- [${entry.name}/](${url}) (dir)`;
+      return `- [${entry.name}](${url}) (file${entry.size !== undefined ? `, ${this.formatSize(entry.size)}` : ''})`;
+    });
+    if (entries.truncated) {
+      lines.push(`\n*Listing truncated after ${entries.length} entries.*`);
+    }
+    return lines.join('\n');
+  }
+
+  private formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+
+  private async thread(target: RepoRef & { type: 'issue' | 'pull'; number: number }, signal?: AbortSignal): Promise<Thread> {
+    const { forge, repo, number } = target;
+    const limit = this.options.maxComments;
+
+    if (forge.kind === 'gitlab') {
+      const collection = target.type === 'pull' ? 'merge_requests' : 'issues';
+      const base = `${forge.api}/projects/${encodeURIComponent(repo)}/${collection}/${number}`;
+      const data = await this.json(forge, base, signal);
+      const notes = await this.paginate(forge, `${base}/notes?sort=asc&order_by=created_at&per_page=100`, limit, signal);
+
+      return {
+        title: data.title,
+        number: data.iid,
+        state: data.merged_at ? 'merged' : data.state,
+        author: data.author?.username,
+        createdAt: data.created_at,
+        body: data.description || '',
+        url: data.web_url,
+        labels: data.labels || [],
+        branches: target.type === 'pull' ? `${data.source_branch} → ${data.target_branch}` : undefined,
+        comments: notes.items
+          .filter((note: any) => !note.system)
+          .map((note: any) => ({
+            author: note.author?.username,
+            createdAt: note.created_at,
+            body: note.body,
+            location: note.position?.new_path ? `${note.position.new_path}:${note.position.new_line ?? note.position.old_line}` : undefined,
+          })),
+      };
+    }
+
+    // GitHub and Gitea share the issue/comment shapes; pull requests are issues with extra fields
+    const base = `${forge.api}/repos/${repo}`;
+    const issue = await this.json(forge, `${base}/issues/${number}`, signal);
+    const comments = await this.paginate(forge, `${base}/issues/${number}/comments?per_page=100`, limit, signal);
+    const thread: Thread = {
+      title: issue.title,
+      number: issue.number,
+      state: issue.state,
+      author: issue.user?.login,
+      createdAt: issue.created_at,
+      body: issue.body || '',
+      url: issue.html_url,
+      labels: (issue.labels || []).map((label: any) => label.name),
+      comments: comments.items.map((comment: any) => ({
+        author: comment.user?.login,
+        createdAt: comment.created_at,
+        body: comment.body || '',
+      })),
+    };
+
+    if (target.type === 'pull' || issue.pull_request) {
+      const pull = await this.json(forge, `${base}/pulls/${number}`, signal);
+      thread.branches = `${pull.head?.label} → ${pull.base?.label}`;
+      if (pull.merged) thread.state = 'merged';
+
+      if (forge.kind === 'github') {
+        const reviews = await this.paginate(forge, `${base}/pulls/${number}/comments?per_page=100`, limit, signal);
+        thread.comments.push(...reviews.items.map((comment: any) => ({
+          author: comment.user?.login,
+          createdAt: comment.created_at,
+          body: comment.body || '',
+          location: `${comment.path}:${comment.line ?? comment.original_line ?? ''}`,
+        })));
+        thread.comments.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      }
+    }
+
+    return thread;
+  }
+
+  private renderThread(thread: Thread): string {
+    const details = [
+      `**State:** ${thread.state}`,
+      `**Author:** @${thread.author}`,
+      `**Opened:** ${thread.createdAt}`,
+      ...(thread.branches ? [`**Branches:** ${thread.branches}`] : []),
+      ...(thread.labels.length > 0 ? [`**Labels:** ${thread.labels.join(', ')}`] : []),
+    ];
+
+    const sections = [
+      `# ${thread.title} (#${thread.number})`,
+      `${details.join(' · ')}\n\n${thread.url}`,
+      this.demoteHeadings(thread.body.trim()) || '*No description provided.*',
+    ];
+
+    for (const comment of thread.comments) {
+      const where = comment.location ? ` on \`${comment.location}\`` : '';
+      sections.push(`---\n\n### @${comment.author} commented${where} (${comment.createdAt})\n\n${this.demoteHeadings(comment.body.trim())}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Push user-authored headings below the generated `#`/`##` structure.
+   */
+  private demoteHeadings(markdown: string): string {
+    let inFence = false;
+    return markdown.split('\n').map(line => {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      if (inFence) return line;
+      return line.replace(/^(#{1,4})(\s)/, '$1##$2');
+    }).join('\n');
+  }
+}
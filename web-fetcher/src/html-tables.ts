@@ -0,0 +1,224 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import type TurndownService from 'turndown';
+import { renderMarkdownTable } from './markdown-table.js';
+
+export interface HtmlTable {
+  caption?: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export type TableFormat = 'markdown' | 'csv' | 'json';
+
+const MAX_SPAN = 1000;
+const MAX_GRID_CELLS = 100000;
+
+/**
+ * Lay a table's own rows out on a grid. A cell spanning several columns or
+ * rows is repeated in every slot it covers, so each row reads on its own.
+ * Leading `<thead>` rows, or rows made only of `<th>` cells, are header rows.
+ * Returns null once the grid would pass MAX_GRID_CELLS, as spans can make a
+ * small table expand enormously.
+ */
+function layoutTable(
+  $: cheerio.CheerioAPI,
+  table: Element,
+  readCell: (cell: Element) => string
+): { grid: string[][]; headerRows: number } | null {
+  const rows = $(table).find('tr').toArray().filter(row => $(row).closest('table')[0] === table);
+  const grid: string[][] = [];
+  let headerRows = 0;
+  let inHeader = true;
+  let placed = 0;
+
+  for (const [r, row] of rows.entries()) {
+    const cells = $(row).children('td, th').toArray();
+    grid[r] ??= [];
+
+    const isHeader = $(row).parent('thead').length > 0
+      || (cells.length > 0 && cells.every(cell => cell.name === 'th'));
+    if (inHeader && isHeader) headerRows = r + 1;
+    else inHeader = false;
+
+    let column = 0;
+    for (const cell of cells) {
+      while (grid[r][column] !== undefined) column++;
+
+      const colspan = Math.min(Math.max(parseInt($(cell).attr('colspan') || '1', 10) || 1, 1), MAX_SPAN);
+      const rowspanAttribute = parseInt($(cell).attr('rowspan') || '1', 10);
+      // rowspan="0" spans the rest of the table
+      const rowspan = rowspanAttribute === 0 ? rows.length - r : Math.min(Math.max(rowspanAttribute || 1, 1), rows.length - r);
+      placed += colspan * rowspan;
+      if (placed > MAX_GRID_CELLS) return null;
+
+      const text = readCell(cell);
+      for (let dr = 0; dr < rowspan; dr++) {
+        grid[r + dr] ??= [];
+        for (let dc = 0; dc < colspan; dc++) {
+          grid[r + dr][column + dc] = text;
+        }
+      }
+      column += colspan;
+    }
+  }
+
+  const width = Math.max(0, ...grid.map(row => row.length));
+  if (width * grid.length > MAX_GRID_CELLS) return null;
+  const filled = grid.map(row => Array.from({ length: width }, (_, i) => row[i] ?? ''));
+  return { grid: filled, headerRows };
+}
+
+/**
+ * Collapse header rows into one, joining the distinct labels stacked in each
+ * column, e.g. "Dimensions / Width". Without header rows the first row is
+ * used, as a GFM table needs one.
+ */
+function splitHeader(grid: string[][], headerRows: number): { headers: string[]; rows: string[][] } {
+  const count = headerRows > 0 ? headerRows : Math.min(grid.length, 1);
+  const headers = (grid[0] || []).map((_, column) => {
+    const labels = grid.slice(0, count).map(row => row[column]).filter(Boolean);
+    return [...new Set(labels)].join(' / ');
+  });
+  const rows = grid.slice(count).filter(row => row.some(Boolean));
+  return { headers, rows };
+}
+
+/**
+ * A copy of a cell with nested tables flattened in place: their cells joined
+ * with ", " and rows with "; ".
+ */
+function flattenCell($: cheerio.CheerioAPI, cell: Element): cheerio.Cheerio<Element> {
+  const $cell = $(cell).clone();
+  $cell.find('table').each((_, nested) => {
+    $(nested).replaceWith(` ${flattenTable($, nested)} `);
+  });
+  return $cell;
+}
+
+function cellText($: cheerio.CheerioAPI, cell: Element): string {
+  const $cell = flattenCell($, cell);
+  $cell.find('br').replaceWith(' ');
+  return $cell.text().replace(/\s+/g, ' ').trim();
+}
+
+function flattenTable($: cheerio.CheerioAPI, table: Element): string {
+  const layout = layoutTable($, table, cell => cellText($, cell));
+  if (!layout) return $(table).text().replace(/\s+/g, ' ').trim();
+  return layout.grid.map(row => row.filter(Boolean).join(', ')).filter(Boolean).join('; ');
+}
+
+/**
+ * Whether a table only positions content: marked `role="presentation"`,
+ * a single cell, or a wrapper around other tables with no header cells of
+ * its own.
+ */
+function isLayoutTable($: cheerio.CheerioAPI, table: Element): boolean {
+  const $table = $(table);
+  const role = ($table.attr('role') || '').toLowerCase();
+  if (role === 'presentation' || role === 'none') return true;
+
+  const ownCells = $table.find('td, th').filter((_, cell) => $(cell).closest('table')[0] === table);
+  if (ownCells.length <= 1) return true;
+  return $table.find('table').length > 0 && !ownCells.is('th');
+}
+
+/**
+ * Turndown rule rendering data tables as GFM tables. Cell contents keep their
+ * inline markdown (links, emphasis, code) via `toMarkdown`; layout tables fall
+ * through to turndown's default block handling.
+ */
+export function tableRule(toMarkdown: (html: string) => string): TurndownService.Rule {
+  return {
+    filter: node => {
+      if (node.nodeName !== 'TABLE') return false;
+      const $ = cheerio.load(node.outerHTML);
+      return !isLayoutTable($, $('table').get(0)!);
+    },
+    replacement: (content, node) => {
+      const $ = cheerio.load((node as HTMLElement).outerHTML);
+      const table = $('table').get(0);
+      if (!table) return '';
+
+      const layout = layoutTable($, table, cell =>
+        toMarkdown(flattenCell($, cell).html() || '').replace(/\s*\n\s*/g, ' ').trim()
+      );
+      // Too large to lay out: keep the cells' text as plain blocks
+      if (!layout) return `\n\n${content}\n\n`;
+      const { headers, rows } = splitHeader(layout.grid, layout.headerRows);
+      if (headers.length === 0) return '';
+
+      const caption = $(table).children('caption').text().replace(/\s+/g, ' ').trim();
+      const rendered = renderMarkdownTable([headers, ...rows]);
+      return `\n\n${caption ? `*${caption}*\n\n` : ''}${rendered}\n\n`;
+    },
+  };
+}
+
+/**
+ * Every data table on a page as plain-text headers and rows, in document
+ * order. Tables nested in another data table are flattened into its cell;
+ * layout tables are skipped but the tables inside them are not, as are
+ * tables whose spans would expand past MAX_GRID_CELLS.
+ */
+export function extractTables(html: string): HtmlTable[] {
+  const $ = cheerio.load(html);
+  const tables: HtmlTable[] = [];
+
+  $('table').each((_, table) => {
+    const $table = $(table);
+    if (isLayoutTable($, table)) return;
+    if ($table.parents('table').toArray().some(parent => !isLayoutTable($, parent))) return;
+
+    const layout = layoutTable($, table, cell => cellText($, cell));
+    if (!layout) return;
+    const { headers, rows } = splitHeader(layout.grid, layout.headerRows);
+    if (headers.length === 0 || (rows.length === 0 && headers.length <= 1)) return;
+
+    const caption = $table.children('caption').text().replace(/\s+/g, ' ').trim();
+    tables.push({ ...(caption ? { caption } : {}), headers, rows });
+  });
+  return tables;
+}
+
+/**
+ * Render extracted tables as markdown tables, CSV blocks or JSON records
+ * keyed by header.
+ */
+export function formatTables(tables: HtmlTable[], format: TableFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(tables.map((table, i) => ({
+      table: i + 1,
+      ...(table.caption ? { caption: table.caption } : {}),
+      records: toRecords(table),
+    })), null, 2);
+  }
+
+  return tables.map((table, i) => {
+    const heading = `## Table ${i + 1}${table.caption ? `: ${table.caption}` : ''}`;
+    if (format === 'csv') {
+      const csv = [table.headers, ...table.rows].map(row => row.map(csvField).join(',')).join('\n');
+      return `${heading}\n\n\`\`\`csv\n${csv}\n\`\`\``;
+    }
+    return `${heading}\n\n${renderMarkdownTable([table.headers, ...table.rows])}`;
+  }).join('\n\n');
+}
+
+/**
+ * Rows as objects keyed by header. Blank headers become "Column N" and
+ * repeated ones get a numeric suffix.
+ */
+function toRecords(table: HtmlTable): Record<string, string>[] {
+  const seen = new Map<string, number>();
+  const keys = table.headers.map((header, i) => {
+    const base = header || `Column ${i + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+  return table.rows.map(row => Object.fromEntries(keys.map((key, i) => [key, row[i] ?? ''])));
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
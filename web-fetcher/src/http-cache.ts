@@ -0,0 +1,178 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import os from 'os';
+import path from 'path';
+import type { ExtractionResult } from './web-fetcher.js';
+
+export interface HttpCacheOptions {
+  enabled?: boolean;
+  directory?: string;
+  maxBytes?: number;
+  defaultTtl?: number;
+  ttlOverride?: number;
+}
+
+export interface CacheEntry {
+  url: string;
+  storedAt: number;
+  expiresAt: number;
+  etag?: string;
+  lastModified?: string;
+  result: ExtractionResult;
+}
+
+type ResolvedCacheOptions = Required<Omit<HttpCacheOptions, 'ttlOverride'>> & Pick<HttpCacheOptions, 'ttlOverride'>;
+
+const DEFAULT_CACHE_OPTIONS: ResolvedCacheOptions = {
+  enabled: process.env.FETCH_CACHE_ENABLED !== 'false',
+  directory: process.env.FETCH_CACHE_DIR || path.join(os.tmpdir(), 'web-fetcher-cache'),
+  maxBytes: parseInt(process.env.FETCH_CACHE_MAX_BYTES || String(100 * 1024 * 1024), 10),
+  defaultTtl: parseInt(process.env.FETCH_CACHE_DEFAULT_TTL || '300', 10),
+  ttlOverride: process.env.FETCH_CACHE_TTL ? parseInt(process.env.FETCH_CACHE_TTL, 10) : undefined,
+};
+
+/**
+ * Persistent response cache keyed by URL. Entries hold the raw response body and
+ * the extracted markdown, and carry ETag / Last-Modified validators so stale
+ * entries can be revalidated with a conditional request.
+ */
+export class HttpCache {
+  private options: ResolvedCacheOptions;
+
+  constructor(options: HttpCacheOptions = {}) {
+    this.options = { ...DEFAULT_CACHE_OPTIONS, ...options };
+  }
+
+  async get(url: string): Promise<CacheEntry | null> {
+    if (!this.options.enabled) return null;
+
+    const file = this.pathFor(url);
+    try {
+      const entry = JSON.parse(await fs.readFile(file, 'utf8')) as CacheEntry;
+      const now = new Date();
+      await fs.utimes(file, now, now).catch(() => undefined);
+      return entry;
+    } catch {
+      return null;
+    }
+  }
+
+  isFresh(entry: CacheEntry): boolean {
+    return Date.now() < entry.expiresAt;
+  }
+
+  conditionalHeaders(entry: CacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) headers['If-None-Match'] = entry.etag;
+    if (entry.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+    return headers;
+  }
+
+  /**
+   * Store a result. The cache is shared by every client of the server, so
+   * responses to requests that carried credentials are never stored, like
+   * `Cache-Control: private` ones.
+   */
+  async set(url: string, result: ExtractionResult, responseHeaders: Record<string, any> = {}, credentialed = false): Promise<void> {
+    if (!this.options.enabled || credentialed) return;
+
+    const lifetime = this.freshnessLifetime(responseHeaders);
+    if (lifetime === null) return;
+
+    // Screenshots are large and never served back, so only the text and raw body are kept
+    const { screenshot: _screenshot, ...metadata } = result.metadata || {};
+    const storedAt = Date.now();
+    const entry: CacheEntry = {
+      url,
+      storedAt,
+      expiresAt: storedAt + lifetime * 1000,
+      etag: responseHeaders['etag'],
+      lastModified: responseHeaders['last-modified'],
+      result: { ...result, metadata },
+    };
+
+    try {
+      // Entries hold page content, so only the server's own user may read them
+      await fs.mkdir(this.options.directory, { recursive: true, mode: 0o700 });
+      await fs.writeFile(this.pathFor(url), JSON.stringify(entry), { mode: 0o600 });
+      await this.enforceSizeCap();
+    } catch (error) {
+      console.error('Failed to write cache entry:', error);
+    }
+  }
+
+  /**
+   * Extend a stale entry after the origin answered 304 Not Modified. When the
+   * 304 says the response may not be stored, under the same rules as `set`,
+   * the entry is served this once and then removed.
+   */
+  async refresh(entry: CacheEntry, responseHeaders: Record<string, any> = {}, credentialed = false): Promise<CacheEntry> {
+    const lifetime = credentialed ? null : this.freshnessLifetime(responseHeaders);
+    if (lifetime === null) {
+      await fs.unlink(this.pathFor(entry.url)).catch(() => undefined);
+      return { ...entry, expiresAt: Date.now() };
+    }
+
+    const refreshed: CacheEntry = {
+      ...entry,
+      storedAt: Date.now(),
+      expiresAt: Date.now() + lifetime * 1000,
+      etag: responseHeaders['etag'] || entry.etag,
+      lastModified: responseHeaders['last-modified'] || entry.lastModified,
+    };
+
+    try {
+      await fs.writeFile(this.pathFor(entry.url), JSON.stringify(refreshed), { mode: 0o600 });
+    } catch (error) {
+      console.error('Failed to refresh cache entry:', error);
+    }
+    return refreshed;
+  }
+
+  /**
+   * Seconds the response may be served without revalidation, or null when it
+   * must not be stored at all.
+   */
+  private freshnessLifetime(headers: Record<string, any>): number | null {
+    const cacheControl = String(headers['cache-control'] || '').toLowerCase();
+    if (/\b(no-store|private)\b/.test(cacheControl)) return null;
+
+    if (this.options.ttlOverride !== undefined) return this.options.ttlOverride;
+    if (/\bno-cache\b/.test(cacheControl)) return 0;
+
+    const maxAge = cacheControl.match(/\bmax-age=(\d+)/);
+    if (maxAge) return parseInt(maxAge[1], 10);
+
+    if (headers['expires']) {
+      const expires = Date.parse(headers['expires']);
+      const date = headers['date'] ? Date.parse(headers['date']) : Date.now();
+      if (!isNaN(expires)) return Math.max(0, Math.floor((expires - date) / 1000));
+    }
+
+    return this.options.defaultTtl;
+  }
+
+  private async enforceSizeCap(): Promise<void> {
+    const names = await fs.readdir(this.options.directory);
+    const files = await Promise.all(names.map(async name => {
+      const file = path.join(this.options.directory, name);
+      const stat = await fs.stat(file);
+      return { file, size: stat.size, accessed: stat.mtimeMs };
+    }));
+
+    let total = files.reduce((sum, f) => sum + f.size, 0);
+    if (total <= this.options.maxBytes) return;
+
+    files.sort((a, b) => a.accessed - b.accessed);
+    for (const f of files) {
+      if (total <= this.options.maxBytes) break;
+      await fs.unlink(f.file).catch(() => undefined);
+      total -= f.size;
+    }
+  }
+
+  private pathFor(url: string): string {
+    const key = createHash('sha256').update(url).digest('hex');
+    return path.join(this.options.directory, `${key}.json`);
+  }
+}
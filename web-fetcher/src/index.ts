@@ -6,9 +6,24 @@ import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  SetLevelRequestSchema,
   CallToolRequest,
+  LoggingLevel,
+  ProgressToken,
+  ServerNotification,
 } from "@modelcontextprotocol/sdk/types.js";
-import { WebFetcher } from "./web-fetcher.js";
+import { FetchProgress, WebFetcher } from "./web-fetcher.js";
+import { paginate, splitSections, formatSectionIndex } from "./pagination.js";
+import { parseActions } from "./browser-actions.js";
+import { DEVICES } from "./screenshot.js";
+import { runBatch } from "./batch.js";
+import { Crawler } from "./crawler.js";
+import { formatLinks } from "./links.js";
+import { parseScrapeSchema } from "./selectors.js";
+import { formatTables, TableFormat } from "./html-tables.js";
+import { parseRequestHeaders } from "./credentials.js";
+import { formatFeed } from "./feeds.js";
+import { parseOcrLanguages } from "./ocr.js";
 import http, { IncomingMessage, ServerResponse } from "http";
 
 const server = new Server(
@@ -19,11 +34,101 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      logging: {},
     },
   }
 );
 
 const webFetcher = new WebFetcher();
+const crawler = new Crawler(webFetcher);
+
+const DEFAULT_MAX_LENGTH = parseInt(process.env.FETCH_MAX_LENGTH || '20000', 10);
+const BATCH_MAX_LENGTH = parseInt(process.env.FETCH_MANY_MAX_LENGTH || '5000', 10);
+const BATCH_CONCURRENCY = parseInt(process.env.FETCH_MANY_CONCURRENCY || '4', 10);
+const BATCH_DEADLINE = parseInt(process.env.FETCH_MANY_DEADLINE || '60000', 10);
+const BATCH_MAX_URLS = 50;
+const FEED_ITEM_LIMIT = parseInt(process.env.FETCH_FEED_ITEM_LIMIT || '20', 10);
+
+const ACTIONS_SCHEMA = {
+  type: "array",
+  description: "Browser steps to run after the page loads (wait for selectors, click, type, scroll, dismiss cookie dialogs)",
+  items: {
+    type: "object",
+    properties: {
+      type: {
+        type: "string",
+        enum: ["wait_for", "click", "type", "scroll", "dismiss_cookies", "wait_for_network_idle", "wait"],
+      },
+      selector: { type: "string", description: "CSS selector for wait_for, click and type" },
+      text: { type: "string", description: "Text to enter for type" },
+      submit: { type: "boolean", description: "Press Enter after typing" },
+      optional: { type: "boolean", description: "For click, skip instead of failing when the element is missing" },
+      times: { type: "integer", description: "Number of scrolls to the bottom (default: 1)", minimum: 1 },
+      delay: { type: "integer", description: "Milliseconds to wait after each scroll (default: 1000)", minimum: 0 },
+      idle: { type: "integer", description: "Quiet milliseconds that count as network idle (default: 500)", minimum: 0 },
+      timeout: { type: "integer", description: "Milliseconds to wait for wait_for and wait_for_network_idle", minimum: 0 },
+      ms: { type: "integer", description: "Milliseconds to pause for wait", minimum: 0 },
+    },
+    required: ["type"],
+  },
+};
+
+// RFC 5424 severities, least severe first, as MCP logging uses them
+const LOG_LEVELS: LoggingLevel[] = ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"];
+let clientLogLevel: LoggingLevel = "info";
+
+server.setRequestHandler(SetLevelRequestSchema, async request => {
+  clientLogLevel = request.params.level;
+  return {};
+});
+
+/**
+ * Relay fetch stages to the client: as progress notifications when the
+ * request carries a progress token, and as log messages at or above the
+ * level the client asked for.
+ */
+function progressRelay(
+  sendNotification: (notification: ServerNotification) => Promise<void>,
+  progressToken?: ProgressToken
+): (progress: FetchProgress) => void {
+  let step = 0;
+  return progress => {
+    const message = progress.error ? `${progress.message}: ${progress.error}` : progress.message;
+    if (progressToken !== undefined) {
+      sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress: ++step, message },
+      }).catch(error => console.error("Failed to send progress notification:", error));
+    }
+
+    const level: LoggingLevel = progress.error ? "warning" : "info";
+    if (LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(clientLogLevel)) {
+      sendNotification({
+        method: "notifications/message",
+        params: { level, logger: "web-fetcher", data: progress },
+      }).catch(error => console.error("Failed to send log message:", error));
+    }
+  };
+}
+
+/**
+ * Escape a value for a double-quoted attribute of the result wrappers.
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+interface BatchRequest {
+  url: string;
+  raw?: boolean;
+  bypass_cache?: boolean;
+  start_index?: number;
+  max_length?: number;
+  pages?: string;
+  ocr_languages?: string[];
+  actions?: unknown;
+  headers?: unknown;
+}
 
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
@@ -43,6 +148,345 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: "Get the actual HTML content if the requested page, without simplification",
               default: false,
             },
+            structured: {
+              type: "boolean",
+              description: "Also return provenance metadata (title, canonical/final URL, status, content type, language, extraction method, score, word count, fetch time) as structured content",
+              default: false,
+            },
+            bypass_cache: {
+              type: "boolean",
+              description: "Ignore any cached copy and fetch the page from the network",
+              default: false,
+            },
+            start_index: {
+              type: "integer",
+              description: "Character offset to start returning content from. Use the next offset reported in a truncated response to continue reading",
+              minimum: 0,
+              default: 0,
+            },
+            max_length: {
+              type: "integer",
+              description: `Maximum number of characters to return (default: ${DEFAULT_MAX_LENGTH})`,
+              minimum: 1,
+            },
+            section: {
+              type: "integer",
+              description: "Return only this section (1-based) of the markdown, split at headings. Windowing applies within the section",
+              minimum: 1,
+            },
+            list_sections: {
+              type: "boolean",
+              description: "Return the numbered list of markdown sections instead of the content",
+              default: false,
+            },
+            extract: {
+              type: "string",
+              enum: ["content", "links", "tables"],
+              description: "content returns the page as markdown; links lists the page's internal and external links with anchor text and rel, its images, feeds and canonical/OpenGraph metadata; tables returns every data table on the page (HTML pages only)",
+              default: "content",
+            },
+            table_format: {
+              type: "string",
+              enum: ["markdown", "csv", "json"],
+              description: "Format of extract: \"tables\" output: GFM tables, CSV blocks, or JSON records keyed by header (default: markdown)",
+              default: "markdown",
+            },
+            selector: {
+              type: "string",
+              description: "Extract only the elements matching this CSS selector or XPath expression (XPath when it starts with / or (, or with an xpath: prefix)",
+            },
+            scrape: {
+              type: "object",
+              description: "Return JSON rows instead of markdown. Each element matching rows is one row (the whole page when omitted); each field is a selector relative to the row, or { selector, attribute, multiple }",
+              properties: {
+                rows: { type: "string", description: "CSS selector or XPath of the repeating element, e.g. \"table.releases tr\"" },
+                fields: {
+                  type: "object",
+                  description: "Field name to selector, or to { selector, attribute: \"text\" | \"html\" | attribute name, multiple }",
+                  additionalProperties: {
+                    anyOf: [
+                      { type: "string" },
+                      {
+                        type: "object",
+                        properties: {
+                          selector: { type: "string", description: "Selector relative to the row; omit to read the row element itself" },
+                          attribute: { type: "string", description: "text (default), html, or an attribute name such as href; URLs are made absolute" },
+                          multiple: { type: "boolean", description: "Return every match as an array instead of the first" },
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+              required: ["fields"],
+            },
+            pages: {
+              type: "string",
+              description: "For PDFs, extract only these pages (1-based), e.g. \"1-3,5\" or \"10-\"",
+            },
+            ocr_languages: {
+              type: "array",
+              items: { type: "string" },
+              description: "Tesseract languages for OCR of images, scanned PDF pages and screenshots, e.g. [\"eng\", \"deu\"] (default: FETCH_OCR_LANGS)",
+            },
+            actions: {
+              ...ACTIONS_SCHEMA,
+              description: `${ACTIONS_SCHEMA.description}, before extraction. Forces the browser path and skips the cache`,
+            },
+            headers: {
+              type: "object",
+              additionalProperties: { type: "string" },
+              description: "Extra request headers, e.g. { \"Authorization\": \"Bearer ...\" }. Sent only to the requested URL's host, on the HTTP and browser paths, overriding configured credentials",
+            },
+            user_agent: {
+              type: "string",
+              description: "User-Agent to send instead of the default (FETCH_USER_AGENT)",
+            },
+          },
+          required: ["url"],
+        },
+      },
+      {
+        name: "fetch_many",
+        description: "Fetch several URLs concurrently and return each one's markdown, or its error, without one failure failing the batch",
+        inputSchema: {
+          type: "object",
+          properties: {
+            urls: {
+              type: "array",
+              items: { type: "string" },
+              description: "URLs to fetch with the shared options",
+            },
+            requests: {
+              type: "array",
+              description: "URLs with per-URL options; fetched after any entries in urls",
+              items: {
+                type: "object",
+                properties: {
+                  url: { type: "string" },
+                  raw: { type: "boolean" },
+                  bypass_cache: { type: "boolean" },
+                  start_index: { type: "integer", minimum: 0 },
+                  max_length: { type: "integer", minimum: 1 },
+                  pages: { type: "string" },
+                  ocr_languages: { type: "array", items: { type: "string" } },
+                  actions: ACTIONS_SCHEMA,
+                  headers: { type: "object", additionalProperties: { type: "string" } },
+                },
+                required: ["url"],
+              },
+            },
+            raw: {
+              type: "boolean",
+              description: "Default for every URL: return HTML without simplification",
+              default: false,
+            },
+            bypass_cache: {
+              type: "boolean",
+              description: "Default for every URL: ignore cached copies",
+              default: false,
+            },
+            max_length: {
+              type: "integer",
+              description: `Default maximum characters returned per URL (default: ${BATCH_MAX_LENGTH})`,
+              minimum: 1,
+            },
+            concurrency: {
+              type: "integer",
+              description: `How many URLs to fetch at once (default: ${BATCH_CONCURRENCY})`,
+              minimum: 1,
+              maximum: 16,
+            },
+            timeout: {
+              type: "integer",
+              description: `Overall deadline for the batch in milliseconds; unfinished URLs are reported as errors (default: ${BATCH_DEADLINE})`,
+              minimum: 1000,
+            },
+            structured: {
+              type: "boolean",
+              description: "Also return per-URL results as MCP structuredContent",
+              default: false,
+            },
+          },
+        },
+      },
+      {
+        name: "crawl",
+        description: "Crawl a site section starting from a URL, following same-origin links under a path prefix, and return the pages as one markdown bundle or as an index",
+        inputSchema: {
+          type: "object",
+          properties: {
+            url: {
+              type: "string",
+              description: "URL to start crawling from",
+            },
+            path_prefix: {
+              type: "string",
+              description: "Only follow links whose path starts with this prefix (default: the start URL's directory)",
+            },
+            include: {
+              type: "array",
+              items: { type: "string" },
+              description: "Path globs a link must match to be followed, e.g. /guide/** (* stays within a segment, ** crosses segments)",
+            },
+            exclude: {
+              type: "array",
+              items: { type: "string" },
+              description: "Path globs of links never to follow",
+            },
+            max_depth: {
+              type: "integer",
+              description: "Link hops to follow from the start page (default: 2)",
+              minimum: 0,
+            },
+            max_pages: {
+              type: "integer",
+              description: "Maximum pages to fetch (default: 20, at most 200)",
+              minimum: 1,
+              maximum: 200,
+            },
+            sitemap: {
+              type: "boolean",
+              description: "Also seed the crawl with in-scope URLs from the site's sitemap.xml",
+              default: false,
+            },
+            output: {
+              type: "string",
+              enum: ["bundle", "index"],
+              description: "bundle returns every page's markdown; index lists the pages with titles and word counts",
+              default: "bundle",
+            },
+            concurrency: {
+              type: "integer",
+              description: "Pages fetched at once (default: 4)",
+              minimum: 1,
+              maximum: 16,
+            },
+            timeout: {
+              type: "integer",
+              description: "Overall deadline for the crawl in milliseconds (default: 120000)",
+              minimum: 1000,
+            },
+            bypass_cache: {
+              type: "boolean",
+              description: "Ignore cached copies of the pages",
+              default: false,
+            },
+            start_index: {
+              type: "integer",
+              description: "Character offset into the result to start reading from",
+              default: 0,
+              minimum: 0,
+            },
+            max_length: {
+              type: "integer",
+              description: `Maximum characters to return (default: ${DEFAULT_MAX_LENGTH})`,
+              minimum: 1,
+            },
+            structured: {
+              type: "boolean",
+              description: "Also return the page list as MCP structuredContent",
+              default: false,
+            },
+          },
+          required: ["url"],
+        },
+      },
+      {
+        name: "read_feed",
+        description: "Read an RSS, Atom or JSON Feed and return its items (title, link, published date, author, summary), newest first. A page that is not a feed is searched for feeds it advertises with <link rel=\"alternate\">",
+        inputSchema: {
+          type: "object",
+          properties: {
+            url: {
+              type: "string",
+              description: "URL of the feed, or of a page that links to one",
+            },
+            since: {
+              type: "string",
+              description: "Only items published at or after this ISO 8601 date or time, e.g. \"2024-05-01\"; undated items are left out",
+            },
+            limit: {
+              type: "integer",
+              description: `Maximum items to return (default: ${FEED_ITEM_LIMIT})`,
+              minimum: 1,
+            },
+            bypass_cache: {
+              type: "boolean",
+              description: "Ignore the cached copy of the feed",
+              default: false,
+            },
+            start_index: {
+              type: "integer",
+              description: "Character offset into the result to start reading from",
+              default: 0,
+              minimum: 0,
+            },
+            max_length: {
+              type: "integer",
+              description: `Maximum characters to return (default: ${DEFAULT_MAX_LENGTH})`,
+              minimum: 1,
+            },
+            structured: {
+              type: "boolean",
+              description: "Also return the feed and its items as MCP structuredContent",
+              default: false,
+            },
+          },
+          required: ["url"],
+        },
+      },
+      {
+        name: "screenshot",
+        description: "Render a URL in the browser and return a PNG screenshot (viewport, full page or one element) or the page printed to PDF",
+        inputSchema: {
+          type: "object",
+          properties: {
+            url: {
+              type: "string",
+              description: "URL to capture",
+            },
+            mode: {
+              type: "string",
+              enum: ["viewport", "full_page", "element"],
+              description: "What to capture (default: viewport)",
+              default: "viewport",
+            },
+            selector: {
+              type: "string",
+              description: "CSS selector of the element to capture when mode is \"element\"",
+            },
+            device: {
+              type: "string",
+              enum: Object.keys(DEVICES),
+              description: "Device to emulate: viewport size, pixel ratio and, for mobile devices, user agent (default: desktop)",
+              default: "desktop",
+            },
+            width: {
+              type: "integer",
+              description: "Viewport width in CSS pixels, overriding the device preset",
+              minimum: 1,
+            },
+            height: {
+              type: "integer",
+              description: "Viewport height in CSS pixels, overriding the device preset",
+              minimum: 1,
+            },
+            format: {
+              type: "string",
+              enum: ["png", "pdf"],
+              description: "png for a screenshot, pdf to print the page (default: png)",
+              default: "png",
+            },
+            landscape: {
+              type: "boolean",
+              description: "Print the PDF in landscape orientation",
+              default: false,
+            },
+            actions: {
+              ...ACTIONS_SCHEMA,
+              description: `${ACTIONS_SCHEMA.description}, before the capture`,
+            },
           },
           required: ["url"],
         },
@@ -51,26 +495,150 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
   };
 });
 
-server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
+server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest, extra) => {
   const { name, arguments: args } = request.params;
+  // Aborted when the client cancels the request; fetches stop and close their browser sessions
+  const { signal } = extra;
 
   if (name === "fetch") {
     try {
-      const { url, raw = false } = args as { url: string; raw?: boolean };
+      const {
+        url,
+        raw = false,
+        structured = false,
+        start_index = 0,
+        max_length = DEFAULT_MAX_LENGTH,
+        section,
+        list_sections = false,
+        bypass_cache = false,
+        extract = "content",
+        table_format = "markdown",
+        selector,
+        scrape,
+        pages,
+        ocr_languages,
+        actions,
+        headers,
+        user_agent,
+      } = args as {
+        url: string;
+        raw?: boolean;
+        structured?: boolean;
+        start_index?: number;
+        max_length?: number;
+        section?: number;
+        list_sections?: boolean;
+        bypass_cache?: boolean;
+        extract?: "content" | "links" | "tables";
+        table_format?: TableFormat;
+        selector?: string;
+        scrape?: unknown;
+        pages?: string;
+        ocr_languages?: string[];
+        actions?: unknown;
+        headers?: unknown;
+        user_agent?: string;
+      };
       
       if (!url || typeof url !== 'string') {
         throw new Error('URL is required and must be a string');
       }
 
-      const result = await webFetcher.fetchContent(url, { raw });
+      const scrapeSchema = parseScrapeSchema(scrape);
+      if (scrapeSchema && extract !== "content") {
+        throw new Error(`scrape cannot be combined with extract: "${extract}"`);
+      }
+
+      const result = await webFetcher.fetchContent(url, {
+        raw,
+        bypassCache: bypass_cache,
+        pages,
+        ocrLanguages: parseOcrLanguages(ocr_languages),
+        actions: parseActions(actions),
+        links: extract === "links",
+        tables: extract === "tables",
+        selector,
+        scrape: scrapeSchema,
+        headers: parseRequestHeaders(headers),
+        userAgent: user_agent,
+        signal,
+        onProgress: progressRelay(extra.sendNotification, request.params._meta?.progressToken),
+      });
+
+      let document = result.content;
+      if (result.rows) {
+        document = JSON.stringify(result.rows, null, 2);
+      } else if (extract === "links") {
+        if (!result.links) {
+          throw new Error(`Links can only be extracted from HTML pages, not ${result.contentType || 'this content'}`);
+        }
+        document = formatLinks(result.links, result.title);
+      } else if (extract === "tables") {
+        if (!result.tables) {
+          throw new Error(`Tables can only be extracted from HTML pages, not ${result.contentType || 'this content'}`);
+        }
+        document = result.tables.length > 0 ? formatTables(result.tables, table_format) : 'No data tables found on the page.';
+      }
+      const sections = splitSections(document);
+
+      if (list_sections) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${sections.length} sections:\n\n${formatSectionIndex(sections)}`,
+            },
+          ],
+        };
+      }
+
+      let source = document;
+      if (section !== undefined) {
+        const selected = sections[section - 1];
+        if (!selected) {
+          throw new Error(`Section ${section} not found; the page has ${sections.length} sections`);
+        }
+        source = selected.content;
+      }
+
+      const page = paginate(source, start_index, max_length);
+      let text = page.text;
+      if (page.nextIndex !== undefined) {
+        text += `\n\n<truncated>Showing characters ${page.startIndex}-${page.endIndex} of ${page.totalLength}. Call fetch again with start_index=${page.nextIndex} to continue.</truncated>`;
+      }
       
+      if (!structured) {
+        return {
+          content: [
+            {
+              type: "text",
+              text,
+            },
+          ],
+        };
+      }
+
+      const { content, ...metadata } = result;
+      const pagination = {
+        totalLength: page.totalLength,
+        startIndex: page.startIndex,
+        endIndex: page.endIndex,
+        nextIndex: page.nextIndex,
+        section,
+        sectionCount: sections.length,
+      };
       return {
         content: [
           {
             type: "text",
-            text: result,
+            text,
+          },
+          {
+            type: "text",
+            text: JSON.stringify({ ...metadata, ...pagination }, null, 2),
           },
         ],
+        structuredContent: { ...metadata, ...pagination, content: page.text },
       };
     } catch (error) {
       return {
@@ -85,9 +653,409 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
     }
   }
 
+  if (name === "fetch_many") {
+    try {
+      const {
+        urls = [],
+        requests = [],
+        raw = false,
+        bypass_cache = false,
+        max_length = BATCH_MAX_LENGTH,
+        concurrency = BATCH_CONCURRENCY,
+        timeout = BATCH_DEADLINE,
+        structured = false,
+      } = args as {
+        urls?: string[];
+        requests?: BatchRequest[];
+        raw?: boolean;
+        bypass_cache?: boolean;
+        max_length?: number;
+        concurrency?: number;
+        timeout?: number;
+        structured?: boolean;
+      };
+
+      const batch: BatchRequest[] = [...urls.map(url => ({ url })), ...requests];
+      if (batch.length === 0) {
+        throw new Error('Provide at least one URL in urls or requests');
+      }
+      if (batch.length > BATCH_MAX_URLS) {
+        throw new Error(`At most ${BATCH_MAX_URLS} URLs can be fetched in one batch`);
+      }
+      batch.forEach((item, i) => {
+        if (!item || typeof item.url !== 'string' || !item.url) {
+          throw new Error(`Entry ${i + 1} needs a url string`);
+        }
+      });
+
+      const started = Date.now();
+      const outcomes = await runBatch(
+        batch,
+        (item, _, itemSignal) => webFetcher.fetchContent(item.url, {
+          raw: item.raw ?? raw,
+          bypassCache: item.bypass_cache ?? bypass_cache,
+          pages: item.pages,
+          ocrLanguages: parseOcrLanguages(item.ocr_languages),
+          actions: parseActions(item.actions),
+          headers: parseRequestHeaders(item.headers),
+          signal: itemSignal,
+        }),
+        { concurrency: Math.min(Math.max(concurrency, 1), 16), deadline: timeout, signal }
+      );
+
+      const blocks: string[] = [];
+      const results = outcomes.map(outcome => {
+        const item = batch[outcome.index];
+        const tag = `<result index="${outcome.index + 1}" url="${escapeAttribute(item.url)}"`;
+        if (!outcome.value) {
+          blocks.push(`${tag} status="error">\n${outcome.error}\n</result>`);
+          return { url: item.url, ok: false, error: outcome.error, durationMs: outcome.durationMs };
+        }
+
+        const { content, ...metadata } = outcome.value;
+        const page = paginate(content, item.start_index ?? 0, item.max_length ?? max_length);
+        let body = page.text;
+        if (page.nextIndex !== undefined) {
+          body += `\n\n<truncated>Showing characters ${page.startIndex}-${page.endIndex} of ${page.totalLength}. Call fetch with this URL and start_index=${page.nextIndex} to continue.</truncated>`;
+        }
+        blocks.push(`${tag} status="ok">\n${body}\n</result>`);
+
+        return {
+          ...metadata,
+          ok: true,
+          durationMs: outcome.durationMs,
+          totalLength: page.totalLength,
+          startIndex: page.startIndex,
+          endIndex: page.endIndex,
+          nextIndex: page.nextIndex,
+          content: page.text,
+        };
+      });
+
+      const failed = results.filter(result => !result.ok).length;
+      const summary = `Fetched ${results.length - failed} of ${results.length} URLs${failed ? ` (${failed} failed)` : ''} in ${((Date.now() - started) / 1000).toFixed(1)}s`;
+      const text = [summary, ...blocks].join('\n\n');
+
+      return {
+        content: [
+          {
+            type: "text",
+            text,
+          },
+        ],
+        ...(structured ? { structuredContent: { succeeded: results.length - failed, failed, results } } : {}),
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error fetching batch: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  if (name === "crawl") {
+    try {
+      const {
+        url,
+        path_prefix,
+        include,
+        exclude,
+        max_depth,
+        max_pages,
+        sitemap = false,
+        output = "bundle",
+        concurrency,
+        timeout,
+        bypass_cache = false,
+        start_index = 0,
+        max_length = DEFAULT_MAX_LENGTH,
+        structured = false,
+      } = args as {
+        url: string;
+        path_prefix?: string;
+        include?: string[];
+        exclude?: string[];
+        max_depth?: number;
+        max_pages?: number;
+        sitemap?: boolean;
+        output?: "bundle" | "index";
+        concurrency?: number;
+        timeout?: number;
+        bypass_cache?: boolean;
+        start_index?: number;
+        max_length?: number;
+        structured?: boolean;
+      };
+
+      if (!url || typeof url !== 'string') {
+        throw new Error('URL is required and must be a string');
+      }
+
+      const crawl = await crawler.crawl(url, {
+        pathPrefix: path_prefix,
+        include,
+        exclude,
+        maxDepth: max_depth,
+        maxPages: max_pages,
+        sitemap,
+        concurrency: concurrency !== undefined ? Math.min(Math.max(concurrency, 1), 16) : undefined,
+        deadline: timeout,
+        bypassCache: bypass_cache,
+        signal,
+      });
+
+      const fetched = crawl.pages.filter(page => page.result);
+      const failed = crawl.pages.filter(page => page.error).length;
+      const duplicates = crawl.pages.filter(page => page.duplicateOf).length;
+      const summary = [
+        `Crawled ${fetched.length} page${fetched.length === 1 ? '' : 's'} under ${new URL(crawl.startUrl).origin}${crawl.pathPrefix} in ${(crawl.durationMs / 1000).toFixed(1)}s`,
+        failed && `${failed} failed`,
+        duplicates && `${duplicates} duplicate${duplicates === 1 ? '' : 's'} skipped`,
+        crawl.sitemapUrls && `${crawl.sitemapUrls} URLs from sitemap.xml`,
+        crawl.pending && `${crawl.pending} more in-scope URLs not fetched (raise max_pages or max_depth)`,
+      ].filter(Boolean).join('; ');
+
+      let body: string;
+      if (output === "index") {
+        body = crawl.pages.map((page, i) => {
+          const entry = page.result
+            ? `[${page.result.title || page.url}](${page.url}) — depth ${page.depth}, ${page.result.wordCount} words`
+            : page.duplicateOf
+              ? `${page.url} — duplicate of ${page.duplicateOf}`
+              : `${page.url} — error: ${page.error}`;
+          return `${i + 1}. ${entry}`;
+        }).join('\n');
+      } else {
+        body = crawl.pages.map(page => {
+          if (page.result) {
+            return `<page url="${escapeAttribute(page.url)}" depth="${page.depth}">\n${page.result.content}\n</page>`;
+          }
+          return page.duplicateOf
+            ? `<page url="${escapeAttribute(page.url)}" depth="${page.depth}" status="duplicate" of="${escapeAttribute(page.duplicateOf)}" />`
+            : `<page url="${escapeAttribute(page.url)}" depth="${page.depth}" status="error">\n${page.error}\n</page>`;
+        }).join('\n\n');
+      }
+
+      const page = paginate(`${summary}\n\n${body}`, start_index, max_length);
+      let text = page.text;
+      if (page.nextIndex !== undefined) {
+        text += `\n\n<truncated>Showing characters ${page.startIndex}-${page.endIndex} of ${page.totalLength}. Call crawl again with the same arguments and start_index=${page.nextIndex} to continue; fetched pages are served from the cache.</truncated>`;
+      }
+
+      const pages = crawl.pages.map(({ result, ...entry }) => ({
+        ...entry,
+        title: result?.title,
+        finalUrl: result?.finalUrl,
+        wordCount: result?.wordCount,
+      }));
+      return {
+        content: [
+          {
+            type: "text",
+            text,
+          },
+        ],
+        ...(structured ? {
+          structuredContent: {
+            startUrl: crawl.startUrl,
+            pathPrefix: crawl.pathPrefix,
+            pending: crawl.pending,
+            durationMs: crawl.durationMs,
+            totalLength: page.totalLength,
+            nextIndex: page.nextIndex,
+            pages,
+          },
+        } : {}),
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error crawling: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  if (name === "read_feed") {
+    try {
+      const {
+        url,
+        since,
+        limit = FEED_ITEM_LIMIT,
+        bypass_cache = false,
+        start_index = 0,
+        max_length = DEFAULT_MAX_LENGTH,
+        structured = false,
+      } = args as {
+        url: string;
+        since?: string;
+        limit?: number;
+        bypass_cache?: boolean;
+        start_index?: number;
+        max_length?: number;
+        structured?: boolean;
+      };
+
+      if (!url || typeof url !== 'string') {
+        throw new Error('URL is required and must be a string');
+      }
+      const sinceDate = since !== undefined ? new Date(since) : undefined;
+      if (sinceDate && Number.isNaN(sinceDate.getTime())) {
+        throw new Error(`since must be an ISO 8601 date or time, not "${since}"`);
+      }
+
+      const result = await webFetcher.readFeed(url, {
+        since: sinceDate,
+        limit: Math.max(limit, 1),
+        bypassCache: bypass_cache,
+        signal,
+      });
+
+      const source = result.discoveredFrom ? `Feed ${result.feedUrl}, discovered on ${result.discoveredFrom}\n\n` : '';
+      const page = paginate(`${source}${formatFeed(result.feed, result.items)}`, start_index, max_length);
+      let text = page.text;
+      if (page.nextIndex !== undefined) {
+        text += `\n\n<truncated>Showing characters ${page.startIndex}-${page.endIndex} of ${page.totalLength}. Call read_feed again with start_index=${page.nextIndex} to continue.</truncated>`;
+      }
+
+      const { items: _items, ...feed } = result.feed;
+      return {
+        content: [
+          {
+            type: "text",
+            text,
+          },
+        ],
+        ...(structured ? {
+          structuredContent: {
+            feedUrl: result.feedUrl,
+            discoveredFrom: result.discoveredFrom,
+            ...feed,
+            totalItems: result.feed.items.length,
+            cached: result.cached,
+            items: result.items,
+          },
+        } : {}),
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error reading feed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  if (name === "screenshot") {
+    try {
+      const {
+        url,
+        mode = 'viewport',
+        selector,
+        device,
+        width,
+        height,
+        format = 'png',
+        landscape = false,
+        actions,
+      } = args as {
+        url: string;
+        mode?: 'viewport' | 'full_page' | 'element';
+        selector?: string;
+        device?: string;
+        width?: number;
+        height?: number;
+        format?: 'png' | 'pdf';
+        landscape?: boolean;
+        actions?: unknown;
+      };
+
+      if (!url || typeof url !== 'string') {
+        throw new Error('URL is required and must be a string');
+      }
+
+      const capture = await webFetcher.capture(url, {
+        mode,
+        selector,
+        device,
+        width,
+        height,
+        format,
+        landscape,
+        actions: parseActions(actions),
+        signal,
+      });
+
+      if (capture.mimeType === 'application/pdf') {
+        return {
+          content: [
+            {
+              type: "resource",
+              resource: {
+                uri: capture.finalUrl,
+                mimeType: capture.mimeType,
+                blob: capture.data.toString('base64'),
+              },
+            },
+            {
+              type: "text",
+              text: `PDF of ${capture.finalUrl} (${capture.title || 'untitled'}), ${capture.data.length} bytes`,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "image",
+            data: capture.data.toString('base64'),
+            mimeType: capture.mimeType,
+          },
+          {
+            type: "text",
+            text: `Screenshot of ${capture.finalUrl} (${capture.title || 'untitled'}), ${capture.width}x${capture.height} pixels`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error capturing page: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
   throw new Error(`Unknown tool: ${name}`);
 });
 
+async function shutdown(signal: string) {
+  console.error(`Received ${signal}, shutting down`);
+  await webFetcher.cleanup();
+  process.exit(0);
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
 async function main() {
   const transport = process.env.MCP_TRANSPORT || 'stdio';
   
@@ -0,0 +1,175 @@
+import * as cheerio from 'cheerio';
+
+export interface PageLink {
+  url: string;
+  text: string;
+  rel: string[];
+  internal: boolean;
+}
+
+export interface PageImage {
+  url: string;
+  alt?: string;
+  title?: string;
+}
+
+export interface PageFeed {
+  url: string;
+  type: string;
+  title?: string;
+}
+
+export interface PageLinks {
+  links: PageLink[];
+  images: PageImage[];
+  feeds: PageFeed[];
+  canonicalUrl?: string;
+  openGraph: Record<string, string>;
+}
+
+export const FEED_TYPES = ['application/rss+xml', 'application/atom+xml', 'application/feed+json'];
+
+// Plain application/json alternates are as often oEmbed or REST API links, so they count only when named as feeds
+const JSON_FEED_NAME = /(^|[^a-z])(json)?feeds?([^a-z]|$)/i;
+
+/**
+ * Links, images, feeds and canonical/OpenGraph metadata of an HTML page, with
+ * every URL resolved against `<base href>` or `baseUrl`. Links are unique by
+ * URL, in document order; a link is internal when it points at the page's own
+ * host (ignoring `www.`).
+ */
+export function extractLinks(html: string, baseUrl: string): PageLinks {
+  const $ = cheerio.load(html);
+  const base = resolveUrl($('base[href]').attr('href'), baseUrl) || baseUrl;
+  const host = hostOf(baseUrl);
+
+  const links = new Map<string, PageLink>();
+  $('a[href], area[href]').each((_, element) => {
+    const $element = $(element);
+    const url = resolveUrl($element.attr('href'), base);
+    if (!url || url.startsWith('javascript:') || links.has(url)) return;
+
+    const text = $element.text().replace(/\s+/g, ' ').trim()
+      || $element.attr('aria-label')
+      || $element.attr('title')
+      || $element.find('img[alt]').first().attr('alt')
+      || '';
+    links.set(url, {
+      url,
+      text,
+      rel: ($element.attr('rel') || '').split(/\s+/).filter(Boolean),
+      internal: /^https?:/.test(url) && hostOf(url) === host,
+    });
+  });
+
+  const images = new Map<string, PageImage>();
+  $('img').each((_, element) => {
+    const $element = $(element);
+    // Lazy-loading scripts keep the real source in a data attribute
+    const url = resolveUrl($element.attr('data-src') || $element.attr('src'), base);
+    if (!url || url.startsWith('data:') || images.has(url)) return;
+    images.set(url, {
+      url,
+      alt: $element.attr('alt')?.trim() || undefined,
+      title: $element.attr('title')?.trim() || undefined,
+    });
+  });
+
+  const feeds: PageFeed[] = [];
+  $('link[rel~="alternate"][href][type]').each((_, element) => {
+    const $element = $(element);
+    const type = ($element.attr('type') || '').toLowerCase();
+    const url = resolveUrl($element.attr('href'), base);
+    const title = $element.attr('title')?.trim() || undefined;
+    const namedFeed = type === 'application/json' && [$element.attr('href'), title].some(name => name && JSON_FEED_NAME.test(name));
+    if (url && (FEED_TYPES.includes(type) || namedFeed)) {
+      feeds.push({ url, type, title });
+    }
+  });
+
+  const openGraph: Record<string, string> = {};
+  $('meta[property^="og:"], meta[name^="og:"]').each((_, element) => {
+    const $element = $(element);
+    const property = $element.attr('property') || $element.attr('name')!;
+    const content = $element.attr('content')?.trim();
+    if (content && !(property in openGraph)) {
+      openGraph[property] = /^og:(url|image|video|audio)(:url|:secure_url)?$/.test(property)
+        ? resolveUrl(content, base) || content
+        : content;
+    }
+  });
+
+  return {
+    links: [...links.values()],
+    images: [...images.values()],
+    feeds,
+    canonicalUrl: resolveUrl($('link[rel="canonical"]').attr('href'), base),
+    openGraph,
+  };
+}
+
+/**
+ * Render extracted links as markdown: metadata, feeds, internal and external
+ * links, then images.
+ */
+export function formatLinks(page: PageLinks, title?: string): string {
+  const internal = page.links.filter(link => link.internal);
+  const external = page.links.filter(link => !link.internal);
+  const lines: string[] = [`# Links${title ? ` on ${title}` : ''}`, ''];
+
+  if (page.canonicalUrl || Object.keys(page.openGraph).length > 0) {
+    lines.push('## Metadata', '');
+    if (page.canonicalUrl) lines.push(`- canonical: ${page.canonicalUrl}`);
+    for (const [property, content] of Object.entries(page.openGraph)) {
+      lines.push(`- ${property}: ${content}`);
+    }
+    lines.push('');
+  }
+
+  if (page.feeds.length > 0) {
+    lines.push('## Feeds', '');
+    for (const feed of page.feeds) {
+      lines.push(`- [${escapeText(feed.title || feed.url)}](${feed.url}) (${feed.type})`);
+    }
+    lines.push('');
+  }
+
+  const formatLink = (link: PageLink) =>
+    `- [${escapeText(link.text || link.url)}](${link.url})${link.rel.length > 0 ? ` rel="${link.rel.join(' ')}"` : ''}`;
+  lines.push(`## Internal links (${internal.length})`, '', ...internal.map(formatLink), '');
+  lines.push(`## External links (${external.length})`, '', ...external.map(formatLink), '');
+
+  lines.push(`## Images (${page.images.length})`, '');
+  for (const image of page.images) {
+    lines.push(`- ![${escapeText(image.alt || '')}](${image.url})${image.title ? ` "${image.title}"` : ''}`);
+  }
+
+  return lines.join('\n').trim();
+}
+
+/**
+ * Resolve `href` against `base`, dropping the fragment. Returns undefined for
+ * empty or malformed values.
+ */
+export function resolveUrl(href: string | undefined, base: string): string | undefined {
+  if (!href || !href.trim()) return undefined;
+  try {
+    const url = new URL(href.trim(), base);
+    url.hash = '';
+    return url.href;
+  } catch {
+    return undefined;
+  }
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+function escapeText(text: string): string {
+  return text.replace(/([[\]])/g, '\\$1');
+}
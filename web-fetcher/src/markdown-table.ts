@@ -0,0 +1,22 @@
+/**
+ * Render rows as a GFM table. The first row is the header; short rows are
+ * padded and cell text is flattened to a single line with pipes escaped.
+ */
+export function renderMarkdownTable(rows: string[][]): string {
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map(row => row.length));
+  if (width === 0) return '';
+
+  const cell = (value: string | undefined) =>
+    (value || '').replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|').trim();
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cell(row[i])).join(' | ')} |`;
+
+  const [header, ...body] = rows;
+  return [
+    line(header),
+    `| ${Array(width).fill('---').join(' | ')} |`,
+    ...body.map(line),
+  ].join('\n');
+}
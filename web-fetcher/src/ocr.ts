@@ -0,0 +1,128 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import tesseract from 'node-tesseract-ocr';
+import sharp from 'sharp';
+
+const execFileAsync = promisify(execFile);
+
+export interface OcrOptions {
+  languages?: string[];
+  maxPdfPages?: number;
+  pdfDpi?: number;
+  maxImagePages?: number;
+}
+
+// Tesseract traineddata names; node-tesseract-ocr passes them through a shell
+const LANGUAGE_PATTERN = /^[A-Za-z0-9_]+$/;
+
+function languagesFromEnv(value: string | undefined): string[] {
+  return (value || 'eng').split(/[,+]/).map(lang => lang.trim()).filter(Boolean);
+}
+
+const DEFAULT_OCR_OPTIONS: Required<OcrOptions> = {
+  languages: languagesFromEnv(process.env.FETCH_OCR_LANGS),
+  maxPdfPages: parseInt(process.env.FETCH_OCR_MAX_PDF_PAGES || '20', 10),
+  pdfDpi: parseInt(process.env.FETCH_OCR_PDF_DPI || '300', 10),
+  maxImagePages: parseInt(process.env.FETCH_OCR_MAX_IMAGE_PAGES || '20', 10),
+};
+
+/**
+ * Validate OCR languages from tool arguments: an array of tesseract
+ * traineddata names such as `eng` or `chi_sim`.
+ */
+export function parseOcrLanguages(input: unknown): string[] | undefined {
+  if (input === undefined) return undefined;
+  if (!Array.isArray(input)) {
+    throw new Error('ocr_languages must be an array of tesseract language names');
+  }
+  for (const language of input) {
+    if (typeof language !== 'string' || !LANGUAGE_PATTERN.test(language)) {
+      throw new Error(`Invalid OCR language: ${JSON.stringify(language)}`);
+    }
+  }
+  return input;
+}
+
+/**
+ * Tesseract OCR for screenshots, standalone images (including multi-page
+ * TIFFs) and image-only PDF pages, which are rasterised with poppler's
+ * `pdftoppm`. Languages are tesseract traineddata names, e.g. `eng`, `deu`.
+ */
+export class Ocr {
+  private options: Required<OcrOptions>;
+
+  constructor(options: OcrOptions = {}) {
+    this.options = { ...DEFAULT_OCR_OPTIONS, ...options };
+  }
+
+  /**
+   * Recognise text in an image. Every page of a multi-page image is read,
+   * up to the configured limit.
+   */
+  async recognizeImage(image: Buffer, languages?: string[]): Promise<string> {
+    const { pages = 1 } = await sharp(image).metadata();
+    const texts: string[] = [];
+
+    for (let page = 0; page < Math.min(pages, this.options.maxImagePages); page++) {
+      const text = await this.recognize(sharp(image, { page }), languages);
+      if (text.trim()) texts.push(text.trim());
+    }
+    return texts.join('\n\n');
+  }
+
+  /**
+   * Rasterise the given 1-based PDF pages and recognise each one.
+   */
+  async recognizePdfPages(pdf: Buffer, pages: number[], languages?: string[]): Promise<Map<number, string>> {
+    const results = new Map<number, string>();
+    if (pages.length === 0) return results;
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'web-fetcher-ocr-'));
+    try {
+      const input = path.join(dir, 'input.pdf');
+      await fs.writeFile(input, pdf);
+
+      for (const page of pages.slice(0, this.options.maxPdfPages)) {
+        const prefix = path.join(dir, `page-${page}`);
+        await execFileAsync('pdftoppm', [
+          '-r', String(this.options.pdfDpi),
+          '-f', String(page),
+          '-l', String(page),
+          '-png',
+          '-singlefile',
+          input,
+          prefix,
+        ]);
+        const text = await this.recognize(sharp(`${prefix}.png`), languages);
+        results.set(page, text.trim());
+      }
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+    return results;
+  }
+
+  private async recognize(image: sharp.Sharp, languages?: string[]): Promise<string> {
+    const processed = await image
+      .resize(1920, null, { withoutEnlargement: true })
+      .greyscale()
+      .normalize()
+      .png()
+      .toBuffer();
+
+    const lang = languages && languages.length > 0 ? languages : this.options.languages;
+    const invalid = lang.find(language => !LANGUAGE_PATTERN.test(language));
+    if (invalid !== undefined) {
+      throw new Error(`Invalid OCR language: ${JSON.stringify(invalid)}`);
+    }
+
+    return tesseract.recognize(processed, {
+      lang: lang.join('+'),
+      oem: 1,
+      psm: 3,
+    });
+  }
+}
@@ -0,0 +1,71 @@
+export interface ContentWindow {
+  text: string;
+  totalLength: number;
+  startIndex: number;
+  endIndex: number;
+  nextIndex?: number;
+}
+
+export interface MarkdownSection {
+  index: number;
+  heading: string;
+  level: number;
+  content: string;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+export function paginate(content: string, startIndex = 0, maxLength?: number): ContentWindow {
+  const totalLength = content.length;
+  const start = Math.min(Math.max(startIndex, 0), totalLength);
+  const end = maxLength && maxLength > 0 ? Math.min(start + maxLength, totalLength) : totalLength;
+
+  return {
+    text: content.slice(start, end),
+    totalLength,
+    startIndex: start,
+    endIndex: end,
+    nextIndex: end < totalLength ? end : undefined,
+  };
+}
+
+/**
+ * Split markdown into sections at ATX headings, ignoring `#` lines inside code
+ * fences. Text before the first heading becomes an untitled leading section.
+ */
+export function splitSections(markdown: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  let current: { heading: string; level: number; lines: string[] } = { heading: '', level: 0, lines: [] };
+  let inFence = false;
+
+  const flush = () => {
+    const content = current.lines.join('\n').trim();
+    if (content || current.heading) {
+      sections.push({ index: sections.length + 1, heading: current.heading, level: current.level, content });
+    }
+  };
+
+  for (const line of markdown.split('\n')) {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+    }
+
+    const match = !inFence ? line.match(HEADING_PATTERN) : null;
+    if (match) {
+      flush();
+      current = { heading: match[2], level: match[1].length, lines: [line] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+}
+
+export function formatSectionIndex(sections: MarkdownSection[]): string {
+  return sections
+    .map(section => `${'  '.repeat(Math.max(section.level - 1, 0))}${section.index}. ${section.heading || '(untitled)'}`)
+    .join('\n');
+}
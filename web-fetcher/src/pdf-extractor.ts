@@ -0,0 +1,350 @@
+import PDFParser from 'pdf2json';
+import { renderMarkdownTable } from './markdown-table.js';
+import type { Ocr } from './ocr.js';
+
+export interface PdfExtraction {
+  content: string;
+  metadata: {
+    title?: string;
+    author?: string;
+    pageCount: number;
+    pages: number[];
+    ocrPages?: number[];
+  };
+}
+
+export interface PdfOptions {
+  pages?: string;
+  ocr?: Ocr;
+  ocrLanguages?: string[];
+}
+
+interface PdfText {
+  x: number;
+  y: number;
+  w: number;
+  R: { T: string; TS: [number, number, number, number] }[];
+}
+
+interface PdfPage {
+  Width: number;
+  Texts: PdfText[];
+}
+
+interface PdfData {
+  Meta?: Record<string, any>;
+  Pages: PdfPage[];
+}
+
+interface Item {
+  x: number;
+  y: number;
+  right: number;
+  text: string;
+  size: number;
+}
+
+interface Line {
+  y: number;
+  size: number;
+  segments: Item[];
+}
+
+type Block =
+  | { kind: 'text'; lines: Line[] }
+  | { kind: 'table'; lines: Line[] }
+  | { kind: 'columns'; gutter: number; lines: Line[] };
+
+// pdf2json positions are in "page units" (1/4.5 inch, i.e. 16pt); widths are in points
+const POINTS_PER_UNIT = 16;
+const SAME_LINE_TOLERANCE = 0.3;
+const SEGMENT_GAP = 1.2;
+const HEADING_RATIO = 1.15;
+// Pages with less extracted text than this are treated as scanned images
+const MIN_PAGE_TEXT = 20;
+
+/**
+ * Parse a PDF page range such as "1-3,5" into sorted 1-based page numbers.
+ */
+export function parsePageRange(spec: string, pageCount: number): number[] {
+  const pages = new Set<number>();
+  for (const part of spec.split(',').map(p => p.trim()).filter(Boolean)) {
+    const match = part.match(/^(\d+)?\s*(-)?\s*(\d+)?$/);
+    if (!match || (!match[1] && !match[3])) {
+      throw new Error(`Invalid page range: ${spec}`);
+    }
+    const start = match[1] ? parseInt(match[1], 10) : 1;
+    const end = match[2] ? (match[3] ? parseInt(match[3], 10) : pageCount) : start;
+    for (let page = Math.max(start, 1); page <= Math.min(end, pageCount); page++) {
+      pages.add(page);
+    }
+  }
+  return [...pages].sort((a, b) => a - b);
+}
+
+/**
+ * Layout-aware PDF to markdown: text runs are grouped into lines, lines into
+ * text, table and two-column blocks, and headings are inferred from font size
+ * relative to the document's body text. Each page is preceded by a page marker.
+ * Pages without a text layer are OCR'd when an `Ocr` instance is supplied.
+ */
+export async function extractPdf(buffer: Buffer, options: PdfOptions = {}): Promise<PdfExtraction> {
+  const data = await parsePdf(buffer);
+  const pageCount = data.Pages.length;
+  const pages = options.pages ? parsePageRange(options.pages, pageCount) : data.Pages.map((_, i) => i + 1);
+  if (pages.length === 0) {
+    throw new Error(`Page range "${options.pages}" selects none of the document's ${pageCount} pages`);
+  }
+
+  const title = (data.Meta?.Title || '').trim() || undefined;
+  const author = (data.Meta?.Author || '').trim() || undefined;
+
+  const pageLines = new Map<number, Line[]>();
+  for (const page of pages) {
+    pageLines.set(page, toLines(data.Pages[page - 1]));
+  }
+
+  const scanned = pages.filter(page => {
+    const text = (pageLines.get(page) || []).flatMap(line => line.segments.map(s => s.text)).join('');
+    return text.replace(/\s/g, '').length < MIN_PAGE_TEXT;
+  });
+  const ocrText = await recognizeScannedPages(buffer, scanned, options);
+
+  const headingSizes = detectHeadingSizes([...pageLines.values()].flat());
+  const output: string[] = [];
+
+  if (title) output.push(`# ${title}`);
+  if (author) output.push(`*${author}*`);
+
+  for (const page of pages) {
+    const recognized = ocrText.get(page);
+    if (recognized) {
+      output.push(`<!-- Page ${page} (OCR) -->`, recognized);
+      continue;
+    }
+
+    const lines = pageLines.get(page) || [];
+    const blocks = toBlocks(lines, data.Pages[page - 1].Width);
+    const rendered = blocks.map(block => renderBlock(block, headingSizes)).filter(Boolean);
+    output.push(`<!-- Page ${page} -->`, ...rendered);
+  }
+
+  return {
+    content: output.join('\n\n'),
+    metadata: { title, author, pageCount, pages, ocrPages: ocrText.size > 0 ? [...ocrText.keys()] : undefined },
+  };
+}
+
+async function recognizeScannedPages(buffer: Buffer, pages: number[], options: PdfOptions): Promise<Map<number, string>> {
+  if (!options.ocr || pages.length === 0) return new Map();
+
+  console.error(`OCR'ing ${pages.length} PDF page(s) without a text layer`);
+  try {
+    const results = await options.ocr.recognizePdfPages(buffer, pages, options.ocrLanguages);
+    return new Map([...results].filter(([, text]) => text));
+  } catch (error) {
+    console.error('PDF OCR failed:', error);
+    return new Map();
+  }
+}
+
+function parsePdf(buffer: Buffer): Promise<PdfData> {
+  // pdf2json reads the whole underlying ArrayBuffer, and small Buffers share a
+  // pooled one, so hand it a copy that owns its memory
+  const input = Buffer.from(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length));
+  const pdfParser = new (PDFParser as any)(null, 1);
+
+  return new Promise((resolve, reject) => {
+    pdfParser.on('pdfParser_dataError', (errData: any) => reject(errData.parserError || errData));
+    pdfParser.on('pdfParser_dataReady', (pdfData: PdfData) => resolve(pdfData));
+    pdfParser.parseBuffer(input);
+  });
+}
+
+function decode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+function toLines(page: PdfPage): Line[] {
+  const items: Item[] = page.Texts
+    .map(t => ({
+      x: t.x,
+      y: t.y,
+      right: t.x + t.w / POINTS_PER_UNIT,
+      text: t.R.map(r => decode(r.T)).join(''),
+      size: t.R[0]?.TS[1] || 0,
+    }))
+    .filter(item => item.text.trim())
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+
+  const lines: { y: number; items: Item[] }[] = [];
+  for (const item of items) {
+    const line = lines.find(l => Math.abs(l.y - item.y) < SAME_LINE_TOLERANCE);
+    if (line) line.items.push(item);
+    else lines.push({ y: item.y, items: [item] });
+  }
+
+  return lines.map(line => {
+    const sorted = line.items.sort((a, b) => a.x - b.x);
+    const segments: Item[] = [];
+    for (const item of sorted) {
+      const last = segments[segments.length - 1];
+      if (last && item.x - last.right < SEGMENT_GAP) {
+        const joiner = item.x - last.right > 0.1 && !/\s$/.test(last.text) ? ' ' : '';
+        last.text += joiner + item.text;
+        last.right = Math.max(last.right, item.right);
+        last.size = Math.max(last.size, item.size);
+      } else {
+        segments.push({ ...item });
+      }
+    }
+    return { y: line.y, size: Math.max(...segments.map(s => s.size)), segments };
+  });
+}
+
+/**
+ * Font sizes clearly larger than the body size, largest first; their index
+ * gives the heading level.
+ */
+function detectHeadingSizes(lines: Line[]): number[] {
+  const weights = new Map<number, number>();
+  for (const line of lines) {
+    for (const segment of line.segments) {
+      weights.set(segment.size, (weights.get(segment.size) || 0) + segment.text.length);
+    }
+  }
+
+  const body = [...weights.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+  return [...weights.keys()]
+    .filter(size => size >= body * HEADING_RATIO)
+    .sort((a, b) => b - a)
+    .slice(0, 5);
+}
+
+function lineHeight(line: Line): number {
+  return (line.size / POINTS_PER_UNIT) * 1.5;
+}
+
+function isColumnLine(line: Line, pageWidth: number): boolean {
+  return line.segments.length === 2
+    && line.segments.every(s => s.right - s.x > pageWidth * 0.25);
+}
+
+function toBlocks(lines: Line[], pageWidth: number): Block[] {
+  const blocks: Block[] = [];
+
+  for (const line of lines) {
+    const last = blocks[blocks.length - 1];
+
+    if (isColumnLine(line, pageWidth)) {
+      const gutter = (line.segments[0].right + line.segments[1].x) / 2;
+      if (last?.kind === 'columns') last.lines.push(line);
+      else blocks.push({ kind: 'columns', gutter, lines: [line] });
+      continue;
+    }
+
+    // A single-segment line that stays on one side of the gutter and follows
+    // closely in the same font continues the columns (e.g. a short last line)
+    if (last?.kind === 'columns' && line.segments.length === 1) {
+      const segment = line.segments[0];
+      const previous = last.lines[last.lines.length - 1];
+      const continues = line.size === previous.size && line.y - previous.y <= lineHeight(previous) * 1.6;
+      if (continues && (segment.right <= last.gutter || segment.x >= last.gutter)) {
+        last.lines.push(line);
+        continue;
+      }
+    }
+
+    if (line.segments.length >= 2) {
+      if (last?.kind === 'table') last.lines.push(line);
+      else blocks.push({ kind: 'table', lines: [line] });
+      continue;
+    }
+
+    if (last?.kind === 'text') last.lines.push(line);
+    else blocks.push({ kind: 'text', lines: [line] });
+  }
+
+  // A "table" of a single row is just text with wide spacing
+  return blocks.map(block => (block.kind === 'table' && block.lines.length < 2 ? { kind: 'text', lines: block.lines } : block));
+}
+
+function renderBlock(block: Block, headingSizes: number[]): string {
+  switch (block.kind) {
+    case 'table':
+      return renderTable(block.lines);
+    case 'columns': {
+      const left: Line[] = [];
+      const right: Line[] = [];
+      for (const line of block.lines) {
+        const leftSegments = line.segments.filter(s => s.right <= block.gutter);
+        const rightSegments = line.segments.filter(s => s.x >= block.gutter);
+        if (leftSegments.length > 0) left.push({ ...line, segments: leftSegments });
+        if (rightSegments.length > 0) right.push({ ...line, segments: rightSegments });
+      }
+      return [renderText(left, headingSizes), renderText(right, headingSizes)].filter(Boolean).join('\n\n');
+    }
+    default:
+      return renderText(block.lines, headingSizes);
+  }
+}
+
+function renderText(lines: Line[], headingSizes: number[]): string {
+  const paragraphs: string[] = [];
+  let current = '';
+  let previous: Line | null = null;
+
+  const flush = () => {
+    if (current.trim()) paragraphs.push(current.trim());
+    current = '';
+  };
+
+  for (const line of lines) {
+    const text = line.segments.map(s => s.text).join(' ').replace(/\s+/g, ' ').trim();
+    const level = headingSizes.indexOf(line.size);
+
+    if (level !== -1 && text.length < 150) {
+      flush();
+      paragraphs.push(`${'#'.repeat(level + 2)} ${text}`);
+      previous = null;
+      continue;
+    }
+
+    if (previous && (line.y - previous.y > lineHeight(previous) * 1.6 || line.size !== previous.size)) {
+      flush();
+    }
+
+    if (current.endsWith('-') && /^[a-z]/.test(text)) {
+      current = current.slice(0, -1) + text;
+    } else {
+      current += (current ? ' ' : '') + text;
+    }
+    previous = line;
+  }
+  flush();
+
+  return paragraphs.join('\n\n');
+}
+
+function renderTable(lines: Line[]): string {
+  const widest = lines.reduce((a, b) => (b.segments.length > a.segments.length ? b : a));
+  const starts = widest.segments.map(s => s.x);
+
+  const rows = lines.map(line => {
+    const row: string[] = Array(starts.length).fill('');
+    for (const segment of line.segments) {
+      let column = 0;
+      starts.forEach((start, i) => {
+        if (Math.abs(start - segment.x) < Math.abs(starts[column] - segment.x)) column = i;
+      });
+      row[column] = row[column] ? `${row[column]} ${segment.text}` : segment.text;
+    }
+    return row;
+  });
+
+  return renderMarkdownTable(rows);
+}
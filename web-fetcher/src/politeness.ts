@@ -0,0 +1,255 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import { abortable, throwIfAborted } from './abort.js';
+
+export interface PolitenessOptions {
+  enabled?: boolean;
+  userAgent?: string;
+  hostConcurrency?: number;
+  minDelay?: number;
+  robotsTtl?: number;
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelay?: number;
+  fetchedAt: number;
+}
+
+interface HostState {
+  active: number;
+  lastStart: number;
+  queue: (() => void)[];
+}
+
+const HONEST_USER_AGENT = 'web-fetcher-mcp/1.0 (+https://modelcontextprotocol.io)';
+const BROWSER_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+const POLITENESS_ENABLED = process.env.FETCH_POLITENESS === 'true';
+
+const DEFAULT_POLITENESS_OPTIONS: Required<PolitenessOptions> = {
+  enabled: POLITENESS_ENABLED,
+  userAgent: process.env.FETCH_USER_AGENT || (POLITENESS_ENABLED ? HONEST_USER_AGENT : BROWSER_USER_AGENT),
+  hostConcurrency: parseInt(process.env.FETCH_HOST_CONCURRENCY || '2', 10),
+  minDelay: parseInt(process.env.FETCH_HOST_MIN_DELAY || '1000', 10),
+  robotsTtl: parseInt(process.env.FETCH_ROBOTS_TTL || '3600', 10),
+};
+
+/**
+ * Opt-in compliance layer: robots.txt rules (including Crawl-delay) plus a
+ * per-host concurrency limit and minimum delay between request starts.
+ * When disabled every check passes and tasks run immediately.
+ */
+export class Politeness {
+  private options: Required<PolitenessOptions>;
+  private robots = new Map<string, Promise<RobotsPolicy>>();
+  private hosts = new Map<string, HostState>();
+
+  /**
+   * `network` supplies the agents and redirect hooks for robots.txt requests,
+   * so they take the same route as page fetches.
+   */
+  constructor(options: PolitenessOptions = {}, private network: (url: string) => AxiosRequestConfig = () => ({})) {
+    this.options = { ...DEFAULT_POLITENESS_OPTIONS, ...options };
+  }
+
+  get userAgent(): string {
+    return this.options.userAgent;
+  }
+
+  async assertAllowed(url: string, signal?: AbortSignal): Promise<void> {
+    if (!this.options.enabled) return;
+
+    const target = new URL(url);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') return;
+
+    const policy = await this.robotsFor(target.origin, signal);
+    const path = target.pathname + target.search;
+    if (!this.isAllowed(policy, path)) {
+      throw new Error(`Fetching ${url} is disallowed by ${target.origin}/robots.txt`);
+    }
+  }
+
+  /**
+   * Run `task` once the host has a free slot and its crawl delay has passed.
+   * A request aborted while it waits gives up its slot without running.
+   */
+  async schedule<T>(url: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    throwIfAborted(signal);
+    if (!this.options.enabled) return task();
+
+    const target = new URL(url);
+    const policy = await this.robotsFor(target.origin, signal);
+    const delay = Math.max(this.options.minDelay, (policy.crawlDelay || 0) * 1000);
+    const state = this.hostState(target.host);
+
+    const slot = this.acquireSlot(state, delay);
+    try {
+      await abortable(slot, signal);
+    } catch (error) {
+      // The slot is still granted in turn; pass it straight on
+      void slot.then(() => this.releaseSlot(state));
+      throw error;
+    }
+
+    try {
+      return await task();
+    } finally {
+      this.releaseSlot(state);
+    }
+  }
+
+  private hostState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, lastStart: 0, queue: [] };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private async acquireSlot(state: HostState, delay: number): Promise<void> {
+    while (state.active >= this.options.hostConcurrency) {
+      await new Promise<void>(resolve => state.queue.push(resolve));
+    }
+    state.active++;
+
+    const wait = state.lastStart + delay - Date.now();
+    state.lastStart = Math.max(Date.now(), state.lastStart + delay);
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
+
+  private releaseSlot(state: HostState): void {
+    state.active--;
+    state.queue.shift()?.();
+  }
+
+  /**
+   * The cached robots.txt policy for `origin`, fetching it when missing or
+   * stale. A fetch is cancelled only with the request that started it; it is
+   * then dropped from the cache, and requests that shared it fetch again.
+   */
+  private robotsFor(origin: string, signal?: AbortSignal): Promise<RobotsPolicy> {
+    const cached = this.robots.get(origin);
+    if (cached) {
+      return abortable(cached, signal).then(policy => {
+        if (Date.now() - policy.fetchedAt < this.options.robotsTtl * 1000) return policy;
+        if (this.robots.get(origin) === cached) this.robots.delete(origin);
+        return this.robotsFor(origin, signal);
+      }, error => {
+        throwIfAborted(signal);
+        if (this.robots.get(origin) === cached) throw error;
+        return this.robotsFor(origin, signal);
+      });
+    }
+
+    const pending = this.fetchRobots(origin, signal);
+    this.robots.set(origin, pending);
+    pending.catch(() => {
+      if (this.robots.get(origin) === pending) this.robots.delete(origin);
+    });
+    return pending;
+  }
+
+  private async fetchRobots(origin: string, signal?: AbortSignal): Promise<RobotsPolicy> {
+    try {
+      const url = `${origin}/robots.txt`;
+      const response = await axios.get(url, {
+        ...this.network(url),
+        headers: { 'User-Agent': this.options.userAgent },
+        timeout: 10000,
+        signal,
+        maxRedirects: 5,
+        responseType: 'text',
+        validateStatus: () => true,
+      });
+
+      if (response.status >= 200 && response.status < 300) {
+        return this.parseRobots(String(response.data));
+      }
+      if (response.status >= 500) {
+        // Servers that fail to serve robots.txt are treated as disallowing everything
+        return { rules: [{ allow: false, pattern: /^\//, length: 1 }], fetchedAt: Date.now() };
+      }
+    } catch (error) {
+      // A cancelled fetch says nothing about the site, so it must not be cached as "no rules"
+      throwIfAborted(signal);
+      console.error(`Failed to fetch robots.txt for ${origin}:`, error instanceof Error ? error.message : error);
+    }
+
+    return { rules: [], fetchedAt: Date.now() };
+  }
+
+  /**
+   * Parse robots.txt and keep the group that best matches our user agent
+   * token, falling back to the `*` group.
+   */
+  private parseRobots(text: string): RobotsPolicy {
+    const token = this.options.userAgent.split('/')[0].toLowerCase();
+    const groups: { agents: string[]; lines: [string, string][] }[] = [];
+    let current: { agents: string[]; lines: [string, string][] } | null = null;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'user-agent') {
+        if (!current || current.lines.length > 0) {
+          current = { agents: [], lines: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+      } else if (current) {
+        current.lines.push([field, value]);
+      }
+    }
+
+    const group = groups.find(g => g.agents.some(agent => agent !== '*' && token.includes(agent)))
+      || groups.find(g => g.agents.includes('*'));
+
+    const policy: RobotsPolicy = { rules: [], fetchedAt: Date.now() };
+    for (const [field, value] of group?.lines || []) {
+      if ((field === 'allow' || field === 'disallow') && value) {
+        policy.rules.push({ allow: field === 'allow', pattern: this.compilePattern(value), length: value.length });
+      } else if (field === 'crawl-delay') {
+        const delay = parseFloat(value);
+        if (!isNaN(delay)) policy.crawlDelay = delay;
+      }
+    }
+    return policy;
+  }
+
+  private compilePattern(value: string): RegExp {
+    const anchored = value.endsWith('$');
+    const body = (anchored ? value.slice(0, -1) : value)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`);
+  }
+
+  /**
+   * The longest matching rule wins; Allow wins ties.
+   */
+  private isAllowed(policy: RobotsPolicy, path: string): boolean {
+    let best: RobotsRule | null = null;
+    for (const rule of policy.rules) {
+      if (!rule.pattern.test(path)) continue;
+      if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) {
+        best = rule;
+      }
+    }
+    return best ? best.allow : true;
+  }
+}
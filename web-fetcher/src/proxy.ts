@@ -0,0 +1,234 @@
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { HttpProxyAgent } from 'http-proxy-agent';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+
+export type ProxyRotation = 'host' | 'request';
+
+/** Rejects when a proxied request may not go to `hostname`. */
+export type HostGuard = (hostname: string) => Promise<void>;
+
+export interface ProxyOptions {
+  /** Proxy for `http://` URLs. */
+  httpProxy?: string;
+  /** Proxy for `https://` URLs. */
+  httpsProxy?: string;
+  /** Proxies to rotate through for every scheme; overrides httpProxy and httpsProxy. */
+  proxies?: string[];
+  /** `host` pins each host to one proxy; `request` moves each host on to the next proxy per request. */
+  rotation?: ProxyRotation;
+  /** Hosts reached directly: `example.com` (and its subdomains), `.example.com`, `host:port`, IPs, or `*`. */
+  noProxy?: string[];
+}
+
+export interface ProxyAgents {
+  httpAgent: http.Agent;
+  httpsAgent: https.Agent;
+}
+
+interface ConnectingAgent {
+  connect(request: http.ClientRequest, options: { host?: string }): unknown;
+}
+
+const PROXY_PROTOCOLS = ['http:', 'https:', 'socks:', 'socks4:', 'socks4a:', 'socks5:', 'socks5h:'];
+
+function listFromEnv(value: string | undefined): string[] {
+  return (value || '').split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+const ALL_PROXY = process.env.ALL_PROXY || process.env.all_proxy;
+
+const DEFAULT_PROXY_OPTIONS: Required<Omit<ProxyOptions, 'httpProxy' | 'httpsProxy'>> & Pick<ProxyOptions, 'httpProxy' | 'httpsProxy'> = {
+  httpProxy: process.env.HTTP_PROXY || process.env.http_proxy || ALL_PROXY,
+  httpsProxy: process.env.HTTPS_PROXY || process.env.https_proxy || ALL_PROXY,
+  proxies: listFromEnv(process.env.FETCH_PROXIES),
+  rotation: process.env.FETCH_PROXY_ROTATION === 'request' ? 'request' : 'host',
+  noProxy: listFromEnv(process.env.NO_PROXY || process.env.no_proxy),
+};
+
+/**
+ * Chooses the outbound proxy for each request: the scheme's proxy, or one
+ * from a rotation list, unless the host is on the bypass list. Supplies
+ * matching agents for axios and the Chrome flags for browser sessions.
+ */
+export class ProxyRouter {
+  private httpProxy?: URL;
+  private httpsProxy?: URL;
+  private proxies: URL[];
+  private rotation: ProxyRotation;
+  private noProxy: string[];
+  private agents = new Map<string, ProxyAgents>();
+  private hostProxies = new Map<string, number>();
+  private nextProxy = 0;
+  private nextSession = 0;
+
+  /**
+   * `guard` vets every host a proxy is asked to reach, redirect hops
+   * included, since the proxy resolves names out of the URL policy's sight.
+   */
+  constructor(options: ProxyOptions = {}, private guard?: HostGuard) {
+    const resolved = { ...DEFAULT_PROXY_OPTIONS, ...options };
+    this.httpProxy = resolved.httpProxy ? parseProxy(resolved.httpProxy) : undefined;
+    this.httpsProxy = resolved.httpsProxy ? parseProxy(resolved.httpsProxy) : undefined;
+    this.proxies = resolved.proxies.map(parseProxy);
+    this.rotation = resolved.rotation;
+    this.noProxy = resolved.noProxy.map(entry => entry.toLowerCase());
+
+    if (this.proxies.length > 0 || this.httpProxy || this.httpsProxy) {
+      const names = this.proxies.length > 0 ? this.proxies : [this.httpProxy, this.httpsProxy].filter((p): p is URL => !!p);
+      console.error(`Using outbound proxy: ${[...new Set(names.map(redact))].join(', ')}`);
+    }
+  }
+
+  /**
+   * The proxy a request to `url` goes through, or undefined for a direct
+   * connection. With a rotation list this advances the rotation.
+   */
+  select(url: string): URL | undefined {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return undefined;
+    }
+    if (this.bypasses(target)) return undefined;
+
+    if (this.proxies.length === 0) {
+      return target.protocol === 'https:' ? this.httpsProxy : this.httpProxy;
+    }
+
+    const host = target.hostname.toLowerCase();
+    let index = this.hostProxies.get(host);
+    if (index === undefined) {
+      // New hosts are spread round-robin over the list
+      index = this.nextProxy++ % this.proxies.length;
+    } else if (this.rotation === 'request') {
+      index = (index + 1) % this.proxies.length;
+    }
+    this.hostProxies.set(host, index);
+    return this.proxies[index];
+  }
+
+  /**
+   * Axios agents for a request to `url`: the selected proxy's, or `direct`.
+   */
+  agentsFor(url: string, direct: ProxyAgents): ProxyAgents {
+    const proxy = this.select(url);
+    return proxy ? this.proxyAgents(proxy) : direct;
+  }
+
+  /**
+   * Chrome flags for a new browser session. Sessions take turns through a
+   * rotation list, since a running browser cannot switch proxies per host.
+   */
+  browserArguments(): string[] {
+    let server: string | undefined;
+    if (this.proxies.length > 0) {
+      server = chromeProxy(this.proxies[this.nextSession++ % this.proxies.length]);
+    } else if (this.httpProxy || this.httpsProxy) {
+      server = [
+        this.httpProxy && `http=${chromeProxy(this.httpProxy)}`,
+        this.httpsProxy && `https=${chromeProxy(this.httpsProxy)}`,
+      ].filter(Boolean).join(';');
+    }
+    if (!server || this.noProxy.includes('*')) return [];
+
+    const bypass = this.noProxy.flatMap(entry => {
+      const host = entry.replace(/^\*?\./, '');
+      return net.isIP(host) ? [host] : [host, `*.${host}`];
+    });
+    return [`--proxy-server=${server}`, ...(bypass.length > 0 ? [`--proxy-bypass-list=${bypass.join(';')}`] : [])];
+  }
+
+  /**
+   * Credentials for a proxy by origin, for answering the browser's proxy
+   * authentication challenges.
+   */
+  credentialsFor(origin: string): { username: string; password: string } | undefined {
+    const host = origin.toLowerCase().replace(/^[a-z][a-z0-9+.-]*:\/\//, '').replace(/\/.*$/, '');
+    const proxy = [...this.proxies, this.httpProxy, this.httpsProxy].find(p => p?.username && p.host.toLowerCase() === host);
+    return proxy ? { username: decodeURIComponent(proxy.username), password: decodeURIComponent(proxy.password) } : undefined;
+  }
+
+  get hasCredentials(): boolean {
+    return [...this.proxies, this.httpProxy, this.httpsProxy].some(p => p?.username);
+  }
+
+  private proxyAgents(proxy: URL): ProxyAgents {
+    let agents = this.agents.get(proxy.href);
+    if (!agents) {
+      if (proxy.protocol.startsWith('socks')) {
+        const agent = this.guarded(new SocksProxyAgent(proxy, { keepAlive: true }));
+        agents = { httpAgent: agent, httpsAgent: agent as unknown as https.Agent };
+      } else {
+        agents = {
+          httpAgent: this.guarded(new HttpProxyAgent(proxy, { keepAlive: true })),
+          httpsAgent: this.guarded(new HttpsProxyAgent(proxy, { keepAlive: true })) as unknown as https.Agent,
+        };
+      }
+      this.agents.set(proxy.href, agents);
+    }
+    return agents;
+  }
+
+  /**
+   * Run the host guard before the agent connects through its proxy.
+   */
+  private guarded<T extends ConnectingAgent>(agent: T): T {
+    const guard = this.guard;
+    if (!guard) return agent;
+    const connect = agent.connect.bind(agent);
+    agent.connect = async (request, options) => {
+      // Fail closed: an empty host cannot resolve
+      await guard(options.host || '');
+      return connect(request, options);
+    };
+    return agent;
+  }
+
+  /**
+   * NO_PROXY matching as curl does it: an entry matches its host and every
+   * subdomain; a port, when given, must match too.
+   */
+  private bypasses(target: URL): boolean {
+    const host = target.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+    return this.noProxy.some(entry => {
+      if (entry === '*') return true;
+      const [, name, entryPort] = entry.match(/^\*?\.?(\[[^\]]+\]|[^:]+)(?::(\d+))?$/) || [];
+      if (!name || (entryPort && entryPort !== port)) return false;
+      const bare = name.replace(/^\[|\]$/g, '');
+      return host === bare || host.endsWith(`.${bare}`);
+    });
+  }
+}
+
+function parseProxy(value: string): URL {
+  let proxy: URL;
+  try {
+    // A bare host:port is an HTTP proxy, as curl assumes
+    proxy = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `http://${value}`);
+  } catch {
+    throw new Error(`Invalid proxy URL: ${value}`);
+  }
+  if (!PROXY_PROTOCOLS.includes(proxy.protocol)) {
+    throw new Error(`Unsupported proxy scheme "${proxy.protocol.replace(/:$/, '')}"; expected http, https or socks5`);
+  }
+  return proxy;
+}
+
+/**
+ * A proxy as Chrome's --proxy-server expects it. Chrome takes credentials
+ * through authentication challenges instead, and always resolves hostnames
+ * through SOCKS5 proxies.
+ */
+function chromeProxy(proxy: URL): string {
+  const scheme = proxy.protocol.replace(/:$/, '').replace(/^socks5h$/, 'socks5').replace(/^socks$/, 'socks5');
+  return `${scheme}://${proxy.host}`;
+}
+
+function redact(proxy: URL): string {
+  return proxy.username ? `${proxy.protocol}//***@${proxy.host}` : `${proxy.protocol}//${proxy.host}`;
+}
@@ -0,0 +1,206 @@
+export interface ScoreSignal {
+  name: string;
+  points: number;
+  detail: string;
+}
+
+export interface ScoreBreakdown {
+  total: number;
+  signals: ScoreSignal[];
+}
+
+export interface ScoreReport extends ScoreBreakdown {
+  /** Every method that produced content, when more than one ran. */
+  candidates?: { method: string; score: number }[];
+}
+
+export interface ScoreContext {
+  method: string;
+  status?: number;
+  title?: string;
+  /** False when the page lacks what a selector targets. */
+  targetMatched?: boolean;
+}
+
+/**
+ * Strategy for rating an extraction. Higher totals win when several methods
+ * produce content for the same URL.
+ */
+export interface ContentScorer {
+  score(content: string, context: ScoreContext): ScoreBreakdown;
+}
+
+export interface ScoringWeights {
+  pointsPer100Chars?: number;
+  maxLengthPoints?: number;
+  shortContentPenalty?: number;
+  pointsPerParagraph?: number;
+  maxParagraphPoints?: number;
+  boilerplatePenalty?: number;
+  blockPagePenalty?: number;
+  headingBonus?: number;
+  linkBonus?: number;
+  methodBonus?: Record<string, number>;
+}
+
+function bonusesFromEnv(value: string | undefined): Record<string, number> {
+  const bonuses: Record<string, number> = { browser: 5, http: 3, document: 10, ocr: -5 };
+  for (const entry of (value || '').split(',')) {
+    const [method, points] = entry.split('=').map(part => part.trim());
+    if (method && points !== undefined && !Number.isNaN(Number(points))) {
+      bonuses[method] = Number(points);
+    }
+  }
+  return bonuses;
+}
+
+function weightFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name] || fallback);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+const DEFAULT_SCORING_WEIGHTS: Required<ScoringWeights> = {
+  pointsPer100Chars: weightFromEnv('FETCH_SCORE_POINTS_PER_100_CHARS', 1),
+  maxLengthPoints: weightFromEnv('FETCH_SCORE_MAX_LENGTH_POINTS', 50),
+  shortContentPenalty: weightFromEnv('FETCH_SCORE_SHORT_PENALTY', 20),
+  pointsPerParagraph: weightFromEnv('FETCH_SCORE_POINTS_PER_PARAGRAPH', 2),
+  maxParagraphPoints: weightFromEnv('FETCH_SCORE_MAX_PARAGRAPH_POINTS', 20),
+  boilerplatePenalty: weightFromEnv('FETCH_SCORE_BOILERPLATE_PENALTY', 30),
+  blockPagePenalty: weightFromEnv('FETCH_SCORE_BLOCK_PENALTY', 60),
+  headingBonus: weightFromEnv('FETCH_SCORE_HEADING_BONUS', 10),
+  linkBonus: weightFromEnv('FETCH_SCORE_LINK_BONUS', 5),
+  methodBonus: bonusesFromEnv(process.env.FETCH_SCORE_METHOD_BONUS),
+};
+
+const MIN_CONTENT_LENGTH = 100;
+const MIN_PARAGRAPH_LENGTH = 50;
+// Link text above this share of the page reads as navigation rather than content
+const BOILERPLATE_THRESHOLD = 0.3;
+// Interstitials are short; long pages that mention these phrases are articles about them
+const BLOCK_PAGE_MAX_LENGTH = 1500;
+/** Statuses that usually mean a bot check or login wall, which a rendered browser may get past. */
+export const BLOCK_STATUSES = [401, 403, 429, 503];
+
+const BLOCK_PAGE_PATTERNS = [
+  /verify(ing)? (that )?you are (a )?human/i,
+  /are you a robot\??/i,
+  /checking (if the site connection is secure|your browser)/i,
+  /please (complete|solve) the (security check|captcha)/i,
+  /enable (javascript|cookies)( and cookies)? to continue/i,
+  /unusual traffic from your (computer )?network/i,
+  /access (to this page has been )?denied/i,
+  /you have been blocked/i,
+  /request (was )?blocked/i,
+  /\b403 forbidden\b/i,
+  /\b429 too many requests\b/i,
+  /\bcf-(browser-verification|challenge)\b/i,
+];
+
+const BLOCK_TITLE_PATTERN = /^(just a moment|attention required|access denied|403 forbidden|forbidden|too many requests|security check|are you a robot|captcha)/i;
+
+/**
+ * Additive scorer over independent signals: length, paragraph count, link
+ * density (boilerplate), block-page detection, headings, links and a bonus
+ * per extraction method. Every signal is reported with its points, so a
+ * result's metadata explains its total.
+ */
+export class DefaultScorer implements ContentScorer {
+  private weights: Required<ScoringWeights>;
+
+  constructor(weights: ScoringWeights = {}) {
+    this.weights = {
+      ...DEFAULT_SCORING_WEIGHTS,
+      ...weights,
+      methodBonus: { ...DEFAULT_SCORING_WEIGHTS.methodBonus, ...weights.methodBonus },
+    };
+  }
+
+  score(content: string, context: ScoreContext): ScoreBreakdown {
+    const w = this.weights;
+    const signals: ScoreSignal[] = [];
+
+    const length = content.length;
+    signals.push(length < MIN_CONTENT_LENGTH
+      ? { name: 'length', points: -w.shortContentPenalty, detail: `${length} characters, under ${MIN_CONTENT_LENGTH}` }
+      : { name: 'length', points: round(Math.min((length / 100) * w.pointsPer100Chars, w.maxLengthPoints)), detail: `${length} characters` });
+
+    const paragraphs = content.split(/\n\s*\n/).filter(p => p.trim().length > MIN_PARAGRAPH_LENGTH).length;
+    signals.push({
+      name: 'paragraphs',
+      points: Math.min(paragraphs * w.pointsPerParagraph, w.maxParagraphPoints),
+      detail: `${paragraphs} paragraphs over ${MIN_PARAGRAPH_LENGTH} characters`,
+    });
+
+    const density = linkDensity(content);
+    if (density > BOILERPLATE_THRESHOLD) {
+      signals.push({
+        name: 'boilerplate',
+        points: -round(((density - BOILERPLATE_THRESHOLD) / (1 - BOILERPLATE_THRESHOLD)) * w.boilerplatePenalty),
+        detail: `${Math.round(density * 100)}% of the text is link text`,
+      });
+    }
+
+    const blocked = detectBlockPage(content, context);
+    if (blocked) {
+      signals.push({ name: 'blockPage', points: -w.blockPagePenalty, detail: blocked });
+    }
+
+    if (/#{1,6}\s/.test(content) || /<h[1-6]/.test(content)) {
+      signals.push({ name: 'headings', points: w.headingBonus, detail: 'has headings' });
+    }
+    if (/\[.*\]\(.*\)/.test(content) || /<a\s+href/.test(content)) {
+      signals.push({ name: 'links', points: w.linkBonus, detail: 'has links' });
+    }
+
+    const methodBonus = w.methodBonus[context.method] ?? 0;
+    if (methodBonus !== 0) {
+      signals.push({ name: 'method', points: methodBonus, detail: `${context.method} extraction` });
+    }
+
+    let total = Math.max(0, round(signals.reduce((sum, signal) => sum + signal.points, 0)));
+    if (context.targetMatched === false) {
+      signals.push({ name: 'target', points: -total, detail: 'the selector matched nothing' });
+      total = 0;
+    }
+    return { total, signals };
+  }
+}
+
+/**
+ * Why a page looks like a CAPTCHA, bot check or error interstitial rather than
+ * content, or undefined. Titles and phrases only count on short pages; a
+ * blocking status counts whatever the length.
+ */
+function detectBlockPage(content: string, context: ScoreContext): string | undefined {
+  const short = content.length < BLOCK_PAGE_MAX_LENGTH;
+  if (context.status && BLOCK_STATUSES.includes(context.status)) {
+    return `HTTP ${context.status} with ${content.length} characters`;
+  }
+  if (context.title && BLOCK_TITLE_PATTERN.test(context.title.trim()) && short) {
+    return `interstitial title "${context.title.trim()}"`;
+  }
+  if (!short) return undefined;
+
+  const match = BLOCK_PAGE_PATTERNS.map(pattern => pattern.exec(content)).find(Boolean);
+  return match ? `short page containing "${match[0]}"` : undefined;
+}
+
+/**
+ * Share of visible text that sits inside markdown or HTML links.
+ */
+function linkDensity(content: string): number {
+  const linkText = [
+    ...content.matchAll(/\[([^\]]*)\]\([^)]*\)/g),
+    ...content.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi),
+  ].reduce((sum, match) => sum + match[1].trim().length, 0);
+  const text = content
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > 0 ? Math.min(linkText / text.length, 1) : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
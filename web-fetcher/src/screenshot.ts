@@ -0,0 +1,172 @@
+import { WebDriver } from 'selenium-webdriver';
+import type chrome from 'selenium-webdriver/chrome.js';
+import sharp from 'sharp';
+
+const DEFAULT_MAX_HEIGHT = parseInt(process.env.FETCH_SCREENSHOT_MAX_HEIGHT || '16384', 10);
+const MAX_VIEWPORT = 4096;
+
+export interface Viewport {
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+  mobile: boolean;
+  userAgent?: string;
+}
+
+export const DEVICES: Record<string, Viewport> = {
+  desktop: { width: 1920, height: 1080, deviceScaleFactor: 1, mobile: false },
+  laptop: { width: 1366, height: 768, deviceScaleFactor: 1, mobile: false },
+  tablet: {
+    width: 820,
+    height: 1180,
+    deviceScaleFactor: 2,
+    mobile: true,
+    userAgent: 'Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+  },
+  mobile: {
+    width: 390,
+    height: 844,
+    deviceScaleFactor: 3,
+    mobile: true,
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+  },
+};
+
+interface PageGeometry {
+  scrollHeight: number;
+  viewportHeight: number;
+  ratio: number;
+}
+
+/**
+ * Capture the whole scrollable page by scrolling one viewport at a time and
+ * stitching the screenshots with sharp. Fixed and sticky elements are hidden
+ * after the first tile so headers are not repeated down the page. Returns a PNG.
+ */
+export async function captureFullPage(driver: WebDriver, maxHeight = DEFAULT_MAX_HEIGHT): Promise<Buffer> {
+  const geometry = await driver.executeScript<PageGeometry>(`
+    const root = document.documentElement;
+    return {
+      scrollHeight: Math.max(root.scrollHeight, document.body ? document.body.scrollHeight : 0),
+      viewportHeight: window.innerHeight,
+      ratio: window.devicePixelRatio || 1,
+    };
+  `);
+
+  const totalHeight = Math.min(geometry.scrollHeight, maxHeight);
+  const tiles: { input: Buffer; top: number }[] = [];
+
+  try {
+    for (let offset = 0; offset < totalHeight; offset += geometry.viewportHeight) {
+      const scrolled = await driver.executeScript<number>(`window.scrollTo(0, ${offset}); return window.scrollY;`);
+      await driver.sleep(250);
+
+      tiles.push({ input: Buffer.from(await driver.takeScreenshot(), 'base64'), top: scrolled });
+      if (tiles.length === 1) {
+        await driver.executeScript(`
+          for (const el of document.querySelectorAll('body *')) {
+            const position = getComputedStyle(el).position;
+            if (position === 'fixed' || position === 'sticky') {
+              el.setAttribute('data-fetcher-hidden', el.style.visibility || ' ');
+              el.style.visibility = 'hidden';
+            }
+          }
+        `);
+      }
+      if (scrolled + geometry.viewportHeight >= totalHeight) break;
+    }
+  } finally {
+    await driver.executeScript(`
+      for (const el of document.querySelectorAll('[data-fetcher-hidden]')) {
+        el.style.visibility = el.getAttribute('data-fetcher-hidden').trim();
+        el.removeAttribute('data-fetcher-hidden');
+      }
+      window.scrollTo(0, 0);
+    `);
+  }
+
+  return stitchScreenshots(tiles, geometry.ratio, totalHeight);
+}
+
+/**
+ * Lay screenshots out at their scroll offsets (CSS pixels) on one canvas,
+ * cropping any tile that runs past the page height.
+ */
+async function stitchScreenshots(
+  tiles: { input: Buffer; top: number }[],
+  ratio: number,
+  cssHeight: number
+): Promise<Buffer> {
+  if (tiles.length === 0) throw new Error('No screenshots to stitch');
+
+  const { width = 0, height: tileHeight = 0 } = await sharp(tiles[0].input).metadata();
+  const last = tiles[tiles.length - 1];
+  const height = Math.min(Math.round(cssHeight * ratio), Math.round(last.top * ratio) + tileHeight);
+
+  const placed = tiles
+    .map(tile => ({ input: tile.input, top: Math.round(tile.top * ratio) }))
+    .filter(tile => tile.top < height);
+
+  const layers = await Promise.all(placed.map(async ({ input: tileInput, top }) => {
+    const visible = Math.min(tileHeight, height - top);
+    const input = visible < tileHeight
+      ? await sharp(tileInput).extract({ left: 0, top: 0, width, height: visible }).toBuffer()
+      : tileInput;
+    return { input, top, left: 0 };
+  }));
+
+  return sharp({ create: { width, height, channels: 3, background: '#ffffff' } })
+    .composite(layers)
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Pick a device preset and apply any explicit width/height on top of it.
+ */
+export function resolveViewport(device = 'desktop', width?: number, height?: number): Viewport {
+  const preset = DEVICES[device];
+  if (!preset) {
+    throw new Error(`Unknown device "${device}"; expected one of ${Object.keys(DEVICES).join(', ')}`);
+  }
+
+  const clamp = (value: number) => Math.min(Math.max(Math.round(value), 1), MAX_VIEWPORT);
+  return {
+    ...preset,
+    width: clamp(width ?? preset.width),
+    height: clamp(height ?? preset.height),
+  };
+}
+
+/**
+ * Emulate a viewport through the DevTools protocol. Pooled sessions are shared,
+ * so callers must undo this with `clearEmulation`.
+ */
+export async function emulate(driver: WebDriver, viewport: Viewport): Promise<void> {
+  const devtools = driver as chrome.Driver;
+  await devtools.sendDevToolsCommand('Emulation.setDeviceMetricsOverride', {
+    width: viewport.width,
+    height: viewport.height,
+    deviceScaleFactor: viewport.deviceScaleFactor,
+    mobile: viewport.mobile,
+  });
+  if (viewport.userAgent) {
+    await devtools.sendDevToolsCommand('Emulation.setUserAgentOverride', { userAgent: viewport.userAgent });
+  }
+}
+
+export async function clearEmulation(driver: WebDriver, userAgent: string): Promise<void> {
+  const devtools = driver as chrome.Driver;
+  await devtools.sendDevToolsCommand('Emulation.clearDeviceMetricsOverride', {});
+  await devtools.sendDevToolsCommand('Emulation.setUserAgentOverride', { userAgent });
+}
+
+/**
+ * Print the loaded page to PDF with the WebDriver print command. Returns the PDF bytes.
+ */
+export async function printToPdf(driver: WebDriver, landscape = false): Promise<Buffer> {
+  // The bundled typings declare printPage as returning void; it resolves to base64
+  const printPage = driver.printPage.bind(driver) as unknown as (options: Record<string, unknown>) => Promise<string>;
+  const data = await printPage({ orientation: landscape ? 'landscape' : 'portrait', background: true });
+  return Buffer.from(data, 'base64');
+}
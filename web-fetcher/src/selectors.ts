@@ -0,0 +1,235 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { DOMParser } from '@xmldom/xmldom';
+import xpath from 'xpath';
+import { resolveUrl } from './links.js';
+
+export interface ScrapeField {
+  selector?: string;
+  attribute?: string;
+  multiple?: boolean;
+}
+
+export interface ScrapeSchema {
+  rows?: string;
+  fields: Record<string, string | ScrapeField>;
+}
+
+export type ScrapeRow = Record<string, string | string[] | null>;
+
+/** An element, or the string value of an XPath attribute, text or scalar result. */
+type Match = { element: Element } | { value: string };
+
+const ID_ATTRIBUTE = 'data-web-fetcher-id';
+const URL_ATTRIBUTES = ['href', 'src', 'data-src', 'action', 'poster', 'srcset'];
+const MAX_FIELDS = 50;
+const XML_NAME = /^[A-Za-z_][\w.-]*$/;
+
+/**
+ * Whether a selector is XPath: an explicit `xpath:` prefix, or an expression
+ * starting with `/`, `./` or `(`. Anything else, or a `css:` prefix, is CSS.
+ */
+function parseSelector(selector: string): { xpath: boolean; expression: string } {
+  const trimmed = selector.trim();
+  if (/^xpath:/i.test(trimmed)) return { xpath: true, expression: trimmed.slice(6).trim() };
+  if (/^css:/i.test(trimmed)) return { xpath: false, expression: trimmed.slice(4).trim() };
+  return { xpath: /^(\/|\.\/|\()/.test(trimmed), expression: trimmed };
+}
+
+/**
+ * A parsed HTML page that answers both CSS and XPath selectors against the
+ * same cheerio tree. XPath runs on an XML copy of the page whose elements
+ * carry their index in the cheerio tree, so matches map back to it.
+ */
+class SelectablePage {
+  readonly $: cheerio.CheerioAPI;
+  private elements?: Element[];
+  private xmlElements?: Map<Element, Node>;
+  private xmlDocument?: Document;
+
+  constructor(html: string) {
+    this.$ = cheerio.load(html);
+  }
+
+  select(selector: string, context?: Element): Match[] {
+    const { xpath: isXPath, expression } = parseSelector(selector);
+    if (!expression) throw new Error('Selector is empty');
+
+    if (!isXPath) {
+      try {
+        const found = context ? this.$(context).find(expression) : this.$(expression);
+        return found.toArray().filter((node): node is Element => node.type === 'tag').map(element => ({ element }));
+      } catch (error) {
+        throw new Error(`Invalid CSS selector "${expression}": ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const root = context ? this.toXml(context) : this.xml();
+    // A context element the XML parser dropped has nothing to match within
+    if (!root) return [];
+    let result: xpath.SelectReturnType;
+    try {
+      result = xpath.select(expression, root);
+    } catch (error) {
+      throw new Error(`Invalid XPath "${expression}": ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!Array.isArray(result)) {
+      return result === null || result === undefined ? [] : [{ value: String(result) }];
+    }
+    return result.map(node => {
+      if (xpath.isElement(node)) {
+        const index = node.getAttribute(ID_ATTRIBUTE);
+        const element = index !== null ? this.elements![Number(index)] : undefined;
+        if (element) return { element };
+      }
+      return { value: (node.textContent || '').replace(/\s+/g, ' ').trim() };
+    });
+  }
+
+  private xml(): Document {
+    if (!this.xmlDocument) {
+      this.elements = this.$('*').toArray().filter((node): node is Element => node.type === 'tag');
+
+      // Serialise with only XML-safe attribute names (not Vue's `@click` or `:class`) and no
+      // namespace declarations, which would force every expression to use prefixes
+      const attributes = this.elements.map(element => element.attribs);
+      this.elements.forEach((element, index) => {
+        element.attribs = Object.fromEntries(
+          Object.entries(element.attribs).filter(([name]) => XML_NAME.test(name) && name !== 'xmlns')
+        );
+        element.attribs[ID_ATTRIBUTE] = String(index);
+      });
+      const markup = this.$.xml();
+      this.elements.forEach((element, index) => { element.attribs = attributes[index]; });
+
+      this.xmlDocument = new DOMParser({
+        errorHandler: { warning: () => {}, error: () => {}, fatalError: () => {} },
+      }).parseFromString(markup, 'text/xml') as unknown as Document;
+
+      this.xmlElements = new Map();
+      for (const node of xpath.select(`//*[@${ID_ATTRIBUTE}]`, this.xmlDocument) as Node[]) {
+        if (xpath.isElement(node)) {
+          this.xmlElements.set(this.elements[Number(node.getAttribute(ID_ATTRIBUTE))], node);
+        }
+      }
+    }
+    return this.xmlDocument;
+  }
+
+  private toXml(element: Element): Node | undefined {
+    this.xml();
+    return this.xmlElements!.get(element);
+  }
+}
+
+/**
+ * The outer HTML of every element matching `selector`, for extraction limited
+ * to part of a page. Returns the number of matches alongside it.
+ */
+export function selectHtml(html: string, selector: string): { html: string; matches: number } {
+  const page = new SelectablePage(html);
+  const matches = page.select(selector);
+  const fragments = matches.map(match =>
+    'element' in match ? page.$.html(match.element) : `<p>${escapeHtml(match.value)}</p>`
+  );
+  return { html: fragments.join('\n'), matches: matches.length };
+}
+
+/**
+ * Whether `selector` matches anything in the page.
+ */
+export function hasMatch(html: string, selector: string): boolean {
+  return new SelectablePage(html).select(selector).length > 0;
+}
+
+/**
+ * Parse `selector` and every selector in `schema` against an empty page, so
+ * a malformed one fails with its parse error before anything is fetched.
+ */
+export function validateSelectors(selector?: string, schema?: ScrapeSchema): void {
+  const page = new SelectablePage('<html></html>');
+  const fields = Object.values(schema?.fields || {}).map(spec => typeof spec === 'string' ? spec : spec.selector);
+  for (const expression of [selector, schema?.rows, ...fields]) {
+    if (expression !== undefined) page.select(expression);
+  }
+}
+
+/**
+ * Extract rows of named fields. Each element matching `schema.rows` is one
+ * row, with field selectors evaluated relative to it; without `rows` the whole
+ * page is a single row. A field reads the element's text unless `attribute`
+ * names an attribute or `html`; URL attributes are resolved against `baseUrl`.
+ */
+export function scrape(html: string, schema: ScrapeSchema, baseUrl: string): ScrapeRow[] {
+  const page = new SelectablePage(html);
+  const contexts: (Element | undefined)[] = schema.rows
+    ? page.select(schema.rows).flatMap(match => 'element' in match ? [match.element] : [])
+    : [undefined];
+
+  return contexts.map(context => {
+    const row: ScrapeRow = {};
+    for (const [name, spec] of Object.entries(schema.fields)) {
+      const field: ScrapeField = typeof spec === 'string' ? { selector: spec } : spec;
+      const matches: Match[] = field.selector
+        ? page.select(field.selector, context)
+        : context ? [{ element: context }] : [];
+      const values = matches
+        .map(match => 'element' in match ? readField(page.$, match.element, field.attribute, baseUrl) : match.value)
+        .filter((value): value is string => value !== undefined);
+      row[name] = field.multiple ? values : values[0] ?? null;
+    }
+    return row;
+  });
+}
+
+/**
+ * Validate a scrape schema supplied as tool arguments.
+ */
+export function parseScrapeSchema(input: unknown): ScrapeSchema | undefined {
+  if (input === undefined) return undefined;
+  if (!input || typeof input !== 'object') throw new Error('scrape must be an object');
+
+  const { rows, fields } = input as Record<string, unknown>;
+  if (rows !== undefined && (typeof rows !== 'string' || !rows.trim())) {
+    throw new Error('scrape.rows must be a selector string');
+  }
+  if (!fields || typeof fields !== 'object' || Array.isArray(fields) || Object.keys(fields).length === 0) {
+    throw new Error('scrape.fields must map field names to selectors');
+  }
+  if (Object.keys(fields).length > MAX_FIELDS) {
+    throw new Error(`scrape.fields may define at most ${MAX_FIELDS} fields`);
+  }
+  for (const [name, field] of Object.entries(fields)) {
+    if (typeof field === 'string') continue;
+    if (!field || typeof field !== 'object' || ((field as ScrapeField).selector !== undefined && typeof (field as ScrapeField).selector !== 'string')) {
+      throw new Error(`scrape.fields.${name} must be a selector or { selector, attribute, multiple }`);
+    }
+  }
+  return { rows: rows as string | undefined, fields: fields as ScrapeSchema['fields'] };
+}
+
+function readField($: cheerio.CheerioAPI, element: AnyNode, attribute: string | undefined, baseUrl: string): string | undefined {
+  const $element = $(element);
+  if (!attribute || attribute === 'text') {
+    return $element.text().replace(/\s+/g, ' ').trim();
+  }
+  if (attribute === 'html') {
+    return ($element.html() || '').trim();
+  }
+
+  const value = $element.attr(attribute);
+  if (value === undefined) return undefined;
+  if (!URL_ATTRIBUTES.includes(attribute.toLowerCase())) return value.trim();
+  if (attribute.toLowerCase() === 'srcset') {
+    return value.split(',').map(candidate => {
+      const [url, ...descriptor] = candidate.trim().split(/\s+/);
+      return [resolveUrl(url, baseUrl) || url, ...descriptor].join(' ');
+    }).join(', ');
+  }
+  return resolveUrl(value, baseUrl) || value.trim();
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
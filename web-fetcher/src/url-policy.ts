@@ -0,0 +1,208 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net, { BlockList } from 'net';
+import type { AxiosRequestConfig } from 'axios';
+
+export interface UrlPolicyOptions {
+  allowPrivateNetworks?: boolean;
+  allowedSchemes?: string[];
+  allowedDomains?: string[];
+  blockedDomains?: string[];
+}
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void;
+
+function listFromEnv(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+}
+
+const DEFAULT_URL_POLICY_OPTIONS: Required<UrlPolicyOptions> = {
+  allowPrivateNetworks: process.env.FETCH_ALLOW_PRIVATE_NETWORKS === 'true',
+  allowedSchemes: listFromEnv(process.env.FETCH_ALLOWED_SCHEMES || 'http,https'),
+  allowedDomains: listFromEnv(process.env.FETCH_ALLOWED_DOMAINS),
+  blockedDomains: listFromEnv(process.env.FETCH_BLOCKED_DOMAINS),
+};
+
+const PRIVATE_RANGES = new BlockList();
+PRIVATE_RANGES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_RANGES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_RANGES.addSubnet('192.0.0.0', 24, 'ipv4');
+PRIVATE_RANGES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addSubnet('198.18.0.0', 15, 'ipv4');
+PRIVATE_RANGES.addSubnet('224.0.0.0', 4, 'ipv4');
+PRIVATE_RANGES.addSubnet('240.0.0.0', 4, 'ipv4');
+// IPv4-compatible addresses (::a.b.c.d), which also covers :: and ::1
+PRIVATE_RANGES.addSubnet('::', 96, 'ipv6');
+// NAT64 and 6to4 both reach an embedded IPv4 address through a gateway
+PRIVATE_RANGES.addSubnet('64:ff9b::', 96, 'ipv6');
+PRIVATE_RANGES.addSubnet('64:ff9b:1::', 48, 'ipv6');
+PRIVATE_RANGES.addSubnet('2002::', 16, 'ipv6');
+PRIVATE_RANGES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_RANGES.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE_RANGES.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Guards every outbound request against SSRF: scheme allow-list, domain
+ * allow/deny globs, and a block on private, loopback and link-local addresses
+ * that is enforced both up front (DNS resolution) and at connect time through
+ * the HTTP agents, so redirects and DNS rebinding cannot slip past it.
+ */
+export class UrlPolicy {
+  private options: Required<UrlPolicyOptions>;
+  private allowedDomains: RegExp[];
+  private blockedDomains: RegExp[];
+  private httpAgent: http.Agent;
+  private httpsAgent: https.Agent;
+
+  constructor(options: UrlPolicyOptions = {}) {
+    this.options = { ...DEFAULT_URL_POLICY_OPTIONS, ...options };
+    this.allowedDomains = this.options.allowedDomains.map(glob => this.compileGlob(glob));
+    this.blockedDomains = this.options.blockedDomains.map(glob => this.compileGlob(glob));
+
+    const lookup = this.guardedLookup.bind(this);
+    this.httpAgent = new http.Agent({ keepAlive: true, lookup } as http.AgentOptions);
+    this.httpsAgent = new https.Agent({ keepAlive: true, lookup } as https.AgentOptions);
+  }
+
+  /**
+   * Validate a URL before any request is made, resolving its hostname. Hosts
+   * that do not resolve locally are refused even when a proxy would resolve
+   * them, since their address cannot be checked.
+   */
+  async assertAllowed(url: string): Promise<void> {
+    const target = this.checkStatic(url);
+    await this.assertHostAllowed(this.hostnameOf(target));
+  }
+
+  /**
+   * Resolve a hostname and refuse it when any of its addresses is private.
+   * Proxy agents call this for every host they tunnel to, redirect hops
+   * included, as the proxy does its own DNS and bypasses `guardedLookup`.
+   */
+  async assertHostAllowed(hostname: string): Promise<void> {
+    const host = hostname.replace(/^\[|\]$/g, '');
+    if (this.options.allowPrivateNetworks) return;
+    if (net.isIP(host)) {
+      if (this.isPrivateAddress(host)) throw new Error(`URL blocked by policy: ${host} is a private address`);
+      return;
+    }
+    if (host.toLowerCase() === 'localhost' || host.toLowerCase().endsWith('.localhost')) {
+      throw new Error(`URL blocked by policy: ${host} is a loopback host`);
+    }
+
+    let addresses: dns.LookupAddress[];
+    try {
+      addresses = await dns.promises.lookup(host, { all: true });
+    } catch {
+      throw new Error(`URL blocked by policy: cannot resolve host ${host}`);
+    }
+
+    for (const { address } of addresses) {
+      if (this.isPrivateAddress(address)) {
+        throw new Error(`URL blocked by policy: ${host} resolves to private address ${address}`);
+      }
+    }
+  }
+
+  /**
+   * Axios settings that re-apply the policy to every redirect hop and to the
+   * address actually connected to.
+   */
+  requestConfig(): Pick<AxiosRequestConfig, 'httpAgent' | 'httpsAgent' | 'beforeRedirect'> {
+    return {
+      httpAgent: this.httpAgent,
+      httpsAgent: this.httpsAgent,
+      beforeRedirect: (options: Record<string, any>) => {
+        this.checkStatic(options.href);
+      },
+    };
+  }
+
+  /**
+   * Checks that need no network access: scheme, domain globs and IP literals.
+   */
+  private checkStatic(url: string): URL {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      throw new Error(`URL blocked by policy: invalid URL ${url}`);
+    }
+
+    const scheme = target.protocol.replace(/:$/, '');
+    if (!this.options.allowedSchemes.includes(scheme)) {
+      throw new Error(`URL blocked by policy: scheme "${scheme}" is not allowed`);
+    }
+
+    const hostname = this.hostnameOf(target).toLowerCase();
+    if (this.blockedDomains.some(pattern => pattern.test(hostname))) {
+      throw new Error(`URL blocked by policy: domain ${hostname} is blocked`);
+    }
+    if (this.allowedDomains.length > 0 && !this.allowedDomains.some(pattern => pattern.test(hostname))) {
+      throw new Error(`URL blocked by policy: domain ${hostname} is not in the allow-list`);
+    }
+
+    if (!this.options.allowPrivateNetworks) {
+      if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+        throw new Error(`URL blocked by policy: ${hostname} is a loopback host`);
+      }
+      if (net.isIP(hostname) && this.isPrivateAddress(hostname)) {
+        throw new Error(`URL blocked by policy: ${hostname} is a private address`);
+      }
+    }
+
+    return target;
+  }
+
+  private guardedLookup(hostname: string, options: dns.LookupOptions, callback: LookupCallback): void {
+    dns.lookup(hostname, options, (error, address, family) => {
+      if (error || this.options.allowPrivateNetworks) {
+        callback(error, address as any, family);
+        return;
+      }
+
+      const addresses = Array.isArray(address) ? address.map(a => a.address) : [address];
+      const blocked = addresses.find(a => this.isPrivateAddress(a));
+      if (blocked) {
+        callback(new Error(`URL blocked by policy: ${hostname} resolves to private address ${blocked}`), address as any, family);
+        return;
+      }
+
+      callback(null, address as any, family);
+    });
+  }
+
+  private isPrivateAddress(address: string): boolean {
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    if (mapped) return PRIVATE_RANGES.check(mapped[1], 'ipv4');
+
+    const mappedHex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+    if (mappedHex) {
+      const high = parseInt(mappedHex[1], 16);
+      const low = parseInt(mappedHex[2], 16);
+      return PRIVATE_RANGES.check(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`, 'ipv4');
+    }
+
+    const family = net.isIP(address);
+    if (family === 4) return PRIVATE_RANGES.check(address, 'ipv4');
+    if (family === 6) return PRIVATE_RANGES.check(address, 'ipv6');
+    return true;
+  }
+
+  private hostnameOf(target: URL): string {
+    return target.hostname.replace(/^\[|\]$/g, '');
+  }
+
+  private compileGlob(glob: string): RegExp {
+    const body = glob
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${body}$`);
+  }
+}
@@ -1,17 +1,58 @@
-import { Builder, WebDriver, By, until } from 'selenium-webdriver';
-import chrome from 'selenium-webdriver/chrome.js';
-import axios from 'axios';
-import * as cheerio from 'cheerio';
+import { createHash } from 'crypto';
+import { By, until, WebDriver } from 'selenium-webdriver';
+import axios, { AxiosRequestConfig } from 'axios';
 import TurndownService from 'turndown';
-import tesseract from 'node-tesseract-ocr';
 import sharp from 'sharp';
-import PDFParser from 'pdf2json';
-import mammoth from 'mammoth';
+import { BrowserPool, BrowserPoolOptions } from './browser-pool.js';
+import { extractMainContent } from './content-extractor.js';
+import { HttpCache, HttpCacheOptions, CacheEntry } from './http-cache.js';
+import { Politeness, PolitenessOptions } from './politeness.js';
+import { UrlPolicy, UrlPolicyOptions } from './url-policy.js';
+import { detectContent, decodeText, isDocumentFormat, ContentFormat } from './content-type.js';
+import { extractDocument } from './document-extractors.js';
+import { Ocr, OcrOptions } from './ocr.js';
+import { captureFullPage, clearEmulation, emulate, printToPdf, resolveViewport } from './screenshot.js';
+import { BrowserAction, runActions } from './browser-actions.js';
+import { Forges, ForgesOptions } from './forges.js';
+import { extractLinks, PageLinks } from './links.js';
+import { hasMatch, scrape, selectHtml, validateSelectors, ScrapeRow, ScrapeSchema } from './selectors.js';
+import { extractTables, HtmlTable, tableRule } from './html-tables.js';
+import { BLOCK_STATUSES, ContentScorer, DefaultScorer, ScoreReport, ScoreSignal, ScoringWeights } from './scoring.js';
+import { Credentials, CredentialsOptions } from './credentials.js';
+import { ProxyOptions, ProxyRouter } from './proxy.js';
+import { abortable, deadline, throwIfAborted } from './abort.js';
+import { Feed, FeedFilter, FeedItem, formatFeed, parseFeed, rankFeeds, selectItems } from './feeds.js';
 
 export interface FetchOptions {
   raw?: boolean;
   timeout?: number;
   userAgent?: string;
+  /** Sent only to the requested URL's host, after any configured credentials. */
+  headers?: Record<string, string>;
+  bypassCache?: boolean;
+  pages?: string;
+  ocrLanguages?: string[];
+  actions?: BrowserAction[];
+  links?: boolean;
+  tables?: boolean;
+  selector?: string;
+  scrape?: ScrapeSchema;
+  /** Cancels the fetch: pending requests are aborted and browser sessions closed. */
+  signal?: AbortSignal;
+  /** Called as the fetch moves through its stages. */
+  onProgress?: (progress: FetchProgress) => void;
+}
+
+export type FetchStage = 'http' | 'browser' | 'page-loaded' | 'ocr' | 'selected';
+
+export interface FetchProgress {
+  stage: FetchStage;
+  message: string;
+  url: string;
+  /** Set when the stage failed; the fetch may still continue with another method. */
+  error?: string;
+  method?: string;
+  score?: number;
 }
 
 export interface ExtractionResult {
@@ -21,11 +62,120 @@ export interface ExtractionResult {
   metadata?: Record<string, any>;
 }
 
+export interface WebFetcherOptions {
+  browserPool?: BrowserPoolOptions;
+  cache?: HttpCacheOptions;
+  politeness?: PolitenessOptions;
+  urlPolicy?: UrlPolicyOptions;
+  ocr?: OcrOptions;
+  forges?: ForgesOptions;
+  scoring?: ScoringWeights;
+  scorer?: ContentScorer;
+  credentials?: CredentialsOptions;
+  proxy?: ProxyOptions;
+}
+
+export interface FetchResult {
+  url: string;
+  content: string;
+  title?: string;
+  author?: string;
+  pageCount?: number;
+  canonicalUrl?: string;
+  finalUrl: string;
+  status?: number;
+  contentType?: string;
+  language?: string;
+  method: string;
+  score: number;
+  wordCount: number;
+  fetchedAt: string;
+  cached: boolean;
+  links?: PageLinks;
+  tables?: HtmlTable[];
+  rows?: ScrapeRow[];
+  feed?: Feed;
+  scoring?: ScoreReport;
+}
+
+export interface ReadFeedOptions extends FeedFilter {
+  bypassCache?: boolean;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export interface FeedResult {
+  /** Where the feed was read from, after redirects. */
+  feedUrl: string;
+  /** The page whose `<link rel="alternate">` led to the feed, when discovered. */
+  discoveredFrom?: string;
+  feed: Feed;
+  /** The feed's items after `since` and `limit`, newest first. */
+  items: FeedItem[];
+  cached: boolean;
+}
+
+export interface CaptureOptions {
+  mode?: 'viewport' | 'full_page' | 'element';
+  selector?: string;
+  device?: string;
+  width?: number;
+  height?: number;
+  format?: 'png' | 'pdf';
+  landscape?: boolean;
+  actions?: BrowserAction[];
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+interface FallbackExtractor {
+  name: string;
+  stage: FetchStage;
+  timeout: number;
+  extract: (signal: AbortSignal) => Promise<ExtractionResult | null>;
+}
+
+// Results scoring above this are accepted without trying further methods
+const GOOD_ENOUGH_SCORE = 50;
+// Advertised feeds tried when a page is not a feed itself
+const MAX_FEED_CANDIDATES = 3;
+
+export interface CaptureResult {
+  data: Buffer;
+  mimeType: string;
+  finalUrl: string;
+  title: string;
+  width?: number;
+  height?: number;
+}
+
 export class WebFetcher {
   private turndown: TurndownService;
-  private driver: WebDriver | null = null;
+  private browserPool: BrowserPool;
+  private cache: HttpCache;
+  private politeness: Politeness;
+  private urlPolicy: UrlPolicy;
+  private ocr: Ocr;
+  private forges: Forges;
+  private scorer: ContentScorer;
+  private credentials: Credentials;
+  private proxies: ProxyRouter;
+
+  constructor(options: WebFetcherOptions = {}) {
+    this.urlPolicy = new UrlPolicy(options.urlPolicy);
+    this.proxies = new ProxyRouter(options.proxy, host => this.urlPolicy.assertHostAllowed(host));
+    this.politeness = new Politeness(options.politeness, url => this.networkConfig(url));
+    this.browserPool = new BrowserPool({
+      userAgent: this.politeness.userAgent,
+      sessionArguments: () => this.proxies.browserArguments(),
+      ...options.browserPool,
+    });
+    this.cache = new HttpCache(options.cache);
+    this.ocr = new Ocr(options.ocr);
+    this.forges = new Forges((url, headers, signal) => this.forgeRequest(url, headers, signal), options.forges);
+    this.scorer = options.scorer || new DefaultScorer(options.scoring);
+    this.credentials = new Credentials(options.credentials);
 
-  constructor() {
     this.turndown = new TurndownService({
       headingStyle: 'atx',
       bulletListMarker: '-',
@@ -36,62 +186,155 @@ export class WebFetcher {
       filter: ['script', 'style', 'noscript'],
       replacement: () => '',
     });
+    this.turndown.addRule('tables', tableRule(html => this.turndown.turndown(html)));
   }
 
-  async fetchContent(url: string, options: FetchOptions = {}): Promise<string> {
-    const { raw = false, timeout = 30000 } = options;
+  /**
+   * Fetch a page within `timeout` (ms), which bounds the whole fetch. Each
+   * stage also has its own deadline, and the first good-enough result ends
+   * the fetch; anything still running is aborted rather than left behind.
+   */
+  async fetchContent(url: string, options: FetchOptions = {}): Promise<FetchResult> {
+    const { timeout = 30000 } = options;
+    const limit = deadline(timeout, `Extraction timed out after ${timeout}ms`, options.signal);
+    try {
+      const result = await abortable(this.fetchWithin(url, options, limit.signal), limit.signal);
+      this.report(options, {
+        stage: 'selected',
+        message: `Selected method ${result.method} (score: ${result.score}${result.cached ? ', cached' : ''})`,
+        url,
+        method: result.method,
+        score: result.score,
+      });
+      return result;
+    } finally {
+      limit.clear();
+    }
+  }
+
+  private async fetchWithin(url: string, options: FetchOptions, signal: AbortSignal): Promise<FetchResult> {
+    const { timeout = 30000, bypassCache = false, pages, ocrLanguages, actions = [], selector } = options;
+    // An action script only makes sense in a browser, and its result depends on the interaction
+    const interactive = actions.length > 0;
+    // Selectors address the page's own HTML, which forge API rendering would replace
+    const targeted = Boolean(selector || options.scrape);
+    // A malformed selector would otherwise fail every extractor in turn
+    validateSelectors(selector, options.scrape);
     
     console.error(`Fetching content from: ${url}`);
     
-    // Check if it's a GitHub URL and convert to raw content URL
-    const processedUrl = this.processGitHubUrl(url);
+    // Repository pages on known forges are rendered through their APIs; file URLs become raw downloads
+    const route = interactive || targeted ? null : await this.forges.route(url, signal);
+    const processedUrl = route?.type === 'raw' ? route.url : url;
+    const forgeHeaders = route?.type === 'raw' ? route.headers : {};
+    await this.urlPolicy.assertAllowed(processedUrl);
+    await this.credentials.ready();
+    // Credentials reach the forge API, the HTTP request or the browser session; what they unlock is never cached
+    let credentialed = Boolean(route && route.type !== 'raw' && route.forge.token) || this.sendsCredentials(processedUrl, options);
+
+    // Page ranges, OCR languages, selectors, scrape schemas and request headers produce different content for the
+    // same URL, so cache them separately; headers are hashed to keep their values out of the cache index
+    const identity = options.headers || options.userAgent
+      ? createHash('sha256').update(JSON.stringify([options.headers || {}, options.userAgent || ''])).digest('hex').slice(0, 16)
+      : undefined;
+    const schema = options.scrape
+      ? createHash('sha256').update(JSON.stringify(options.scrape)).digest('hex').slice(0, 16)
+      : undefined;
+    const variant = [
+      pages && `pages=${pages}`,
+      ocrLanguages?.length && `ocr=${ocrLanguages.join('+')}`,
+      selector && `selector=${encodeURIComponent(selector)}`,
+      schema && `scrape=${schema}`,
+      identity && `identity=${identity}`,
+    ].filter(Boolean);
+    const cacheKey = variant.length > 0 ? `${processedUrl}#${variant.join('&')}` : processedUrl;
+    const cached = bypassCache || interactive ? null : await this.cache.get(cacheKey);
+    if (cached && this.cache.isFresh(cached)) {
+      console.error(`Serving cached content (method: ${cached.result.method})`);
+      return this.toFetchResult(url, processedUrl, options, cached.result, cached);
+    }
+
+    await this.politeness.assertAllowed(processedUrl, signal);
+
+    if (route && route.type !== 'raw') {
+      try {
+        const result = await abortable(this.forges.render(route, signal), signal);
+        await this.cache.set(cacheKey, result, {}, credentialed);
+        return this.toFetchResult(url, processedUrl, options, result);
+      } catch (error) {
+        throwIfAborted(signal);
+        console.error('Forge API rendering failed, fetching the page instead:', error);
+      }
+    }
+
+    if (interactive) {
+      const result = await this.extractWithBrowser(processedUrl, timeout, { ...options, signal });
+      console.error(`Browser extraction with ${actions.length} action(s) complete (score: ${result.score})`);
+      return this.toFetchResult(url, processedUrl, options, result);
+    }
+
+    let responseHeaders: Record<string, any> = {};
+    // A bot check or login wall is scored rather than thrown, so it competes with the browser's result
+    let blocked: ExtractionResult | undefined;
     
     // Try HTTP first as it's fastest
     try {
-      const httpResult = await this.extractWithHttp(processedUrl);
-      if (httpResult && httpResult.score > 50) {
-        console.error(`Fast HTTP extraction successful (score: ${httpResult.score})`);
-        return raw ? (httpResult.metadata?.rawHtml || httpResult.content) : httpResult.content;
+      this.report(options, { stage: 'http', message: 'HTTP attempt', url: processedUrl });
+      const validators = cached ? this.cache.conditionalHeaders(cached) : {};
+      const httpResult = await this.extractWithHttp(
+        processedUrl,
+        Math.min(timeout, 30000),
+        { ...forgeHeaders, ...validators },
+        { ...options, signal }
+      );
+
+      if (cached && httpResult?.metadata?.status === 304) {
+        console.error('Cached content revalidated (304 Not Modified)');
+        const refreshed = await this.cache.refresh(
+          cached,
+          httpResult.metadata.responseHeaders,
+          credentialed || Boolean(httpResult.metadata.credentialed)
+        );
+        return this.toFetchResult(url, processedUrl, options, refreshed.result, refreshed);
+      }
+
+      responseHeaders = httpResult?.metadata?.responseHeaders || {};
+      credentialed ||= Boolean(httpResult?.metadata?.credentialed);
+
+      // Only HTML can improve with a rendered browser; other formats are final
+      const isHtml = httpResult?.metadata?.format === 'html';
+      if (httpResult && BLOCK_STATUSES.includes(httpResult.metadata?.status)) {
+        console.error(`HTTP ${httpResult.metadata?.status} response (score: ${httpResult.score}), trying the browser`);
+        blocked = httpResult;
+      } else if (httpResult && (this.isGoodEnough(httpResult) || (!isHtml && httpResult.content.trim()))) {
+        console.error(`Fast HTTP extraction successful (format: ${httpResult.metadata?.format}, score: ${httpResult.score})`);
+        await this.cache.set(cacheKey, httpResult, responseHeaders, credentialed);
+        return this.toFetchResult(url, processedUrl, options, httpResult);
       }
     } catch (error) {
+      throwIfAborted(signal);
       console.error('HTTP extraction failed:', error);
+      this.report(options, { stage: 'http', message: 'HTTP attempt failed', url: processedUrl, error: errorMessage(error) });
     }
 
-    const results: ExtractionResult[] = [];
-    
-    // Run other methods in parallel with timeout
-    const extractionPromises = [
-      this.extractWithBrowser(processedUrl, Math.min(timeout, 15000)).catch(err => {
-        console.error('Browser extraction failed:', err);
-        return null;
-      }),
-      this.isDocumentUrl(processedUrl) ? 
-        this.extractDocument(processedUrl).catch(err => {
-          console.error('Document extraction failed:', err);
-          return null;
-        }) : null,
-    ];
-
-    // Only try OCR as last resort
-    if (results.length === 0) {
-      extractionPromises.push(
-        this.extractWithOCR(processedUrl, Math.min(timeout, 10000)).catch(err => {
-          console.error('OCR extraction failed:', err);
-          return null;
-        })
-      );
+    // Fall back to the rendered page, and to OCR of a screenshot as a last resort;
+    // screenshots have no HTML for selectors to address
+    const extractors: FallbackExtractor[] = [{
+      name: 'Browser',
+      stage: 'browser',
+      timeout: Math.min(timeout, 15000),
+      extract: stage => this.extractWithBrowser(processedUrl, Math.min(timeout, 15000), { ...options, signal: stage }),
+    }];
+    if (!targeted) {
+      extractors.push({
+        name: 'OCR',
+        stage: 'ocr',
+        timeout: Math.min(timeout, 10000),
+        extract: stage => this.extractWithOCR(processedUrl, Math.min(timeout, 10000), { ...options, signal: stage }),
+      });
     }
-
-    const extractionResults = await Promise.race([
-      Promise.all(extractionPromises),
-      new Promise<(ExtractionResult | null)[]>((_, reject) => 
-        setTimeout(() => reject(new Error('Extraction timeout')), timeout)
-      )
-    ]);
-
-    extractionResults.forEach(result => {
-      if (result) results.push(result);
-    });
+    const results = await this.runFallbacks(processedUrl, extractors, signal, options);
+    if (blocked) results.push(blocked);
 
     if (results.length === 0) {
       throw new Error('All extraction methods failed');
@@ -100,297 +343,541 @@ export class WebFetcher {
     const bestResult = this.selectBestResult(results);
     console.error(`Selected method: ${bestResult.method} (score: ${bestResult.score})`);
     
-    if (raw) {
-      return bestResult.metadata?.rawHtml || bestResult.content;
+    if (!BLOCK_STATUSES.includes(bestResult.metadata?.status)) {
+      await this.cache.set(cacheKey, bestResult, responseHeaders, credentialed);
     }
-    
-    return bestResult.content;
+    return this.toFetchResult(url, processedUrl, options, bestResult);
   }
 
-  private async extractWithBrowser(url: string, timeout: number): Promise<ExtractionResult | null> {
-    let driver: WebDriver | null = null;
-    
-    try {
-      const options = new chrome.Options();
-      options.addArguments(
-        '--headless',
-        '--no-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-blink-features=AutomationControlled',
-        '--disable-extensions',
-        '--user-agent=Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-      );
+  /**
+   * Read a feed's items. A page that is not a feed itself is searched for
+   * feeds advertised with `<link rel="alternate">`, tried in turn.
+   */
+  async readFeed(url: string, options: ReadFeedOptions = {}): Promise<FeedResult> {
+    const fetchOptions: FetchOptions = { bypassCache: options.bypassCache, headers: options.headers, signal: options.signal };
+    const read = (result: FetchResult, discoveredFrom?: string): FeedResult => ({
+      feedUrl: result.finalUrl,
+      ...(discoveredFrom ? { discoveredFrom } : {}),
+      feed: result.feed!,
+      items: selectItems(result.feed!.items, options),
+      cached: result.cached,
+    });
+
+    const page = await this.fetchContent(url, { ...fetchOptions, links: true });
+    if (page.feed) return read(page);
+
+    const candidates = rankFeeds(page.links?.feeds || []).slice(0, MAX_FEED_CANDIDATES);
+    for (const candidate of candidates) {
+      console.error(`Trying feed ${candidate.url} (${candidate.type}) linked from ${page.finalUrl}`);
+      try {
+        const result = await this.fetchContent(candidate.url, fetchOptions);
+        if (result.feed) return read(result, page.finalUrl);
+      } catch (error) {
+        throwIfAborted(options.signal);
+        console.error(`Could not read feed ${candidate.url}:`, errorMessage(error));
+      }
+    }
 
-      driver = await new Builder()
-        .forBrowser('chrome')
-        .setChromeOptions(options)
-        .build();
+    throw new Error(candidates.length > 0
+      ? `None of the feeds linked from ${url} could be read`
+      : `${url} is not a feed and does not link to one`);
+  }
 
-      await driver.manage().setTimeouts({ pageLoad: timeout });
-      await driver.get(url);
-      
-      await driver.wait(until.elementLocated(By.tagName('body')), timeout);
-      await driver.sleep(2000);
+  /**
+   * Render a page in the browser and return it as a PNG screenshot (viewport,
+   * full page or a single element) or as a printed PDF.
+   */
+  async capture(url: string, options: CaptureOptions = {}): Promise<CaptureResult> {
+    const { mode = 'viewport', format = 'png', timeout = 30000, actions = [] } = options;
+    if (mode === 'element' && !options.selector) {
+      throw new Error('A selector is required to capture an element');
+    }
+    const viewport = resolveViewport(options.device, options.width, options.height);
+
+    await this.urlPolicy.assertAllowed(url);
+    await this.politeness.assertAllowed(url, options.signal);
+
+    return this.withBrowser(url, { signal: options.signal }, async driver => {
+      await emulate(driver, viewport);
+      try {
+        const finalUrl = await this.navigate(driver, url, timeout, actions);
+        if (actions.length === 0) await driver.sleep(1000);
+        const title = await driver.getTitle();
+
+        if (format === 'pdf') {
+          return { data: await printToPdf(driver, options.landscape), mimeType: 'application/pdf', finalUrl, title };
+        }
+
+        let data: Buffer;
+        if (mode === 'full_page') {
+          data = await captureFullPage(driver);
+        } else if (mode === 'element') {
+          const element = await driver.wait(until.elementLocated(By.css(options.selector!)), timeout);
+          await driver.executeScript('arguments[0].scrollIntoView({ block: "center" });', element);
+          data = Buffer.from(await element.takeScreenshot(), 'base64');
+        } else {
+          data = Buffer.from(await driver.takeScreenshot(), 'base64');
+        }
+
+        const { width, height } = await sharp(data).metadata();
+        return { data, mimeType: 'image/png', finalUrl, title, width, height };
+      } finally {
+        await clearEmulation(driver, this.politeness.userAgent);
+      }
+    });
+  }
+
+  private toFetchResult(
+    url: string,
+    processedUrl: string,
+    options: FetchOptions,
+    result: ExtractionResult,
+    cacheEntry?: CacheEntry
+  ): FetchResult {
+    const metadata = result.metadata || {};
+    const content = options.raw ? (metadata.selectedHtml ?? metadata.rawHtml ?? result.content) : result.content;
+    const words = result.content.trim().split(/\s+/).filter(Boolean);
+    const finalUrl = metadata.finalUrl || processedUrl;
+    const isHtml = metadata.format === 'html' || result.method === 'browser';
+
+    if ((options.selector || options.scrape) && !(isHtml && metadata.rawHtml)) {
+      throw new Error(`Selectors can only be applied to HTML pages, not ${metadata.contentType || result.method}`);
+    }
+    if (options.selector && metadata.selectorMatches === 0) {
+      throw new Error(`No elements match selector: ${options.selector}`);
+    }
+
+    return {
+      url,
+      content,
+      title: metadata.title,
+      author: metadata.author,
+      pageCount: metadata.pageCount,
+      canonicalUrl: metadata.canonicalUrl,
+      finalUrl,
+      status: metadata.status,
+      contentType: metadata.contentType,
+      language: metadata.language,
+      method: result.method,
+      score: result.score,
+      scoring: metadata.scoring,
+      wordCount: words.length,
+      fetchedAt: new Date(cacheEntry ? cacheEntry.storedAt : Date.now()).toISOString(),
+      cached: cacheEntry !== undefined,
+      ...(options.links ? { links: isHtml && metadata.rawHtml ? extractLinks(metadata.rawHtml, finalUrl) : undefined } : {}),
+      ...(options.tables ? { tables: isHtml && metadata.rawHtml ? extractTables(metadata.selectedHtml ?? metadata.rawHtml) : undefined } : {}),
+      ...(options.scrape ? { rows: scrape(metadata.rawHtml, options.scrape, finalUrl) } : {}),
+      ...(metadata.feed ? { feed: metadata.feed } : {}),
+    };
+  }
+
+  private async extractWithBrowser(url: string, timeout: number, options: FetchOptions = {}): Promise<ExtractionResult> {
+    const { actions = [] } = options;
+    return this.withBrowser(url, options, async driver => {
+      this.report(options, { stage: 'browser', message: 'Browser launched', url });
+      const finalUrl = await this.navigate(driver, url, timeout, actions);
+      this.report(options, { stage: 'page-loaded', message: `Page loaded: ${finalUrl}`, url });
+      if (actions.length === 0) await driver.sleep(2000);
 
       const html = await driver.getPageSource();
-      const $ = cheerio.load(html);
-      
-      $('script, style, noscript, nav, header, footer, aside, .ad, .advertisement').remove();
+      const { markdown, metadata } = this.htmlToMarkdown(html, options.selector);
+      const targetMatched = this.matchesTarget(html, options);
       
-      const cleanHtml = $.html();
-      const markdown = this.turndown.turndown(cleanHtml);
-      const score = this.calculateScore(markdown, 'browser');
-      
-      return {
-        content: markdown,
-        method: 'browser',
-        score,
-        metadata: { rawHtml: html }
-      };
-      
-    } finally {
-      if (driver) {
-        await driver.quit();
+      return this.scored(markdown, 'browser', {
+        ...metadata,
+        rawHtml: html,
+        finalUrl,
+        contentType: 'text/html',
+        targetMatched,
+      });
+    });
+  }
+
+  /**
+   * Run `task` on a pooled browser session that carries the credentials for
+   * `url` and any requested user agent, undoing both afterwards.
+   */
+  private withBrowser<T>(url: string, options: FetchOptions, task: (driver: WebDriver) => Promise<T>): Promise<T> {
+    const { signal } = options;
+    return this.politeness.schedule(url, () => this.browserPool.withDriver(async driver => {
+      const detach = await this.credentials.attachBrowser(driver, url, {
+        request: options.headers ? { url, headers: options.headers } : undefined,
+        userAgent: options.userAgent,
+        defaultUserAgent: this.politeness.userAgent,
+        proxyAuth: this.proxies.hasCredentials ? origin => this.proxies.credentialsFor(origin) : undefined,
+        checkRequest: requestUrl => this.urlPolicy.assertAllowed(requestUrl),
+      });
+      try {
+        return await task(driver);
+      } finally {
+        await detach();
       }
+    }, signal), signal);
+  }
+
+  /**
+   * Load a page in the browser and run any action script, applying the URL
+   * policy to both the requested and the final URL. Every request in between,
+   * redirects and subresources included, is checked as the session
+   * intercepts it. Returns the final URL.
+   */
+  private async navigate(driver: WebDriver, url: string, timeout: number, actions: BrowserAction[] = []): Promise<string> {
+    await this.urlPolicy.assertAllowed(url);
+    await driver.manage().setTimeouts({ pageLoad: timeout });
+    await driver.get(url);
+    
+    await driver.wait(until.elementLocated(By.tagName('body')), timeout);
+    if (actions.length > 0) {
+      await runActions(driver, actions, timeout);
+    }
+
+    const finalUrl = await driver.getCurrentUrl();
+    if (finalUrl !== url) {
+      await this.urlPolicy.assertAllowed(finalUrl);
     }
+    return finalUrl;
   }
 
-  private async extractWithHttp(url: string): Promise<ExtractionResult | null> {
+  private async extractWithHttp(
+    url: string,
+    timeout: number,
+    extraHeaders: Record<string, string> = {},
+    options: FetchOptions = {}
+  ): Promise<ExtractionResult | null> {
+    await this.credentials.ready();
+    const credentials = this.credentials.requestConfig(url, options.headers ? { url, headers: options.headers } : undefined);
+    const network = this.networkConfig(url);
     const headers: any = {
-      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+      'User-Agent': options.userAgent || this.politeness.userAgent,
       'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,application/json,*/*;q=0.8',
       'Accept-Language': 'en-US,en;q=0.5',
       'Accept-Encoding': 'gzip, deflate',
       'Connection': 'keep-alive',
+      // Forge tokens go only to the forge's own hosts
+      ...this.forges.authHeaders(url),
+      // As do configured and per-request credentials, re-evaluated for every redirect hop
+      ...credentials.headers,
+      ...extraHeaders,
     };
 
-    // Add GitHub token if available for API requests
-    if (url.includes('api.github.com') && process.env.GITHUB_TOKEN) {
-      headers['Authorization'] = `Bearer ${process.env.GITHUB_TOKEN}`;
-    }
-
-    const response = await axios.get(url, {
+    const response = await this.politeness.schedule(url, () => axios.get(url, {
+      ...network,
+      beforeRedirect: (redirect, responseDetails, requestDetails) => {
+        network.beforeRedirect!(redirect, responseDetails, requestDetails);
+        credentials.beforeRedirect(redirect, responseDetails, requestDetails);
+      },
       headers,
-      timeout: 10000,
+      responseType: 'arraybuffer',
+      timeout,
+      signal: options.signal,
       maxRedirects: 5,
-    });
+      // Blocking statuses are kept for scoring; the browser may still get past them
+      validateStatus: status => (status >= 200 && status < 300) || status === 304 || BLOCK_STATUSES.includes(status),
+    }), options.signal);
+
+    const finalUrl = response.request?.res?.responseUrl || url;
+    credentials.storeCookies(finalUrl, response.headers['set-cookie']);
+
+    const responseInfo = {
+      finalUrl,
+      status: response.status,
+      credentialed: credentials.credentialed() || Object.keys(this.forges.authHeaders(url)).length > 0,
+      contentType: response.headers['content-type'],
+      responseHeaders: {
+        'cache-control': response.headers['cache-control'],
+        'etag': response.headers['etag'],
+        'last-modified': response.headers['last-modified'],
+        'expires': response.headers['expires'],
+        'date': response.headers['date'],
+      },
+    };
+
+    if (response.status === 304) {
+      return { content: '', method: 'http', score: 0, metadata: responseInfo };
+    }
+
+    const buffer = Buffer.from(response.data);
+    const detected = detectContent(buffer, String(response.headers['content-type'] || ''));
+    const info = { ...responseInfo, format: detected.format, fileSize: buffer.length };
+    console.error(`Detected content format: ${detected.format} (${detected.mimeType})`);
+
+    if (isDocumentFormat(detected.format)) {
+      const { content, metadata } = await extractDocument(buffer, detected.format, {
+        toMarkdown: html => this.turndown.turndown(html),
+        pages: options.pages,
+        ocr: this.ocr,
+        ocrLanguages: options.ocrLanguages,
+      });
+      return this.scored(content, 'document', { ...info, ...metadata });
+    }
 
-    // Handle GitHub API responses
-    if (url.includes('api.github.com')) {
-      if (Array.isArray(response.data)) {
-        // Directory listing
-        const items = response.data.map((item: any) => 
-          `- [${item.name}](${item.html_url}) (${item.type})`
-        ).join('\n');
-        return {
-          content: `# Directory Contents\n\n${items}`,
-          method: 'http-api',
-          score: 80,
-          metadata: { rawHtml: JSON.stringify(response.data) }
-        };
-      } else if (response.data.content) {
-        // File content
-        const content = Buffer.from(response.data.content, 'base64').toString('utf8');
-        return {
-          content: content,
-          method: 'http-api',
-          score: 90,
-          metadata: { rawHtml: content }
-        };
+    switch (detected.format) {
+      case 'image': {
+        this.report(options, { stage: 'ocr', message: 'OCR running on the image', url });
+        const content = await this.ocr.recognizeImage(buffer, options.ocrLanguages);
+        return this.scored(content, 'ocr', info);
       }
+      case 'binary':
+        throw new Error(`Unsupported content type: ${detected.mimeType}`);
+      default:
+        break;
     }
 
-    const $ = cheerio.load(response.data);
-    
-    $('script, style, noscript, nav, header, footer, aside, .ad, .advertisement').remove();
-    
-    const cleanHtml = $.html();
-    const markdown = this.turndown.turndown(cleanHtml);
-    const score = this.calculateScore(markdown, 'http');
+    const text = decodeText(buffer, detected.charset);
+
+    // Feeds are listed item by item, whatever type they were served as
+    const feed = parseFeed(text, finalUrl);
+    if (feed) {
+      const format = feed.format === 'json' ? 'json' : 'xml';
+      return this.scored(formatFeed(feed), 'feed', { ...info, format, title: feed.title, feed, rawHtml: text });
+    }
+
+    if (detected.format !== 'html') {
+      const content = this.formatText(text, detected.format);
+      return this.scored(content, 'http', { ...info, rawHtml: text });
+    }
+
+    const { markdown, metadata } = this.htmlToMarkdown(text, options.selector);
+    // Content a selector targets may only appear once scripts run, so let the browser try
+    const targetMatched = this.matchesTarget(text, options);
     
+    return this.scored(markdown, 'http', { ...metadata, ...info, rawHtml: text, targetMatched });
+  }
+
+  /**
+   * Axios settings for a request to `url`: the URL policy's agents and
+   * redirect checks, or the selected proxy's agents when one applies,
+   * re-chosen for every redirect hop. Forge tokens are dropped from any hop
+   * that leaves the forge's API.
+   */
+  private networkConfig(url: string): AxiosRequestConfig & Required<Pick<AxiosRequestConfig, 'beforeRedirect'>> {
+    const policy = this.urlPolicy.requestConfig();
+    const direct = { httpAgent: policy.httpAgent, httpsAgent: policy.httpsAgent };
     return {
-      content: markdown,
-      method: 'http',
-      score,
-      metadata: { rawHtml: response.data }
+      ...this.proxies.agentsFor(url, direct),
+      // Proxying is ours to decide; axios would otherwise read HTTP_PROXY itself
+      proxy: false,
+      beforeRedirect: (redirect, responseDetails, requestDetails) => {
+        policy.beforeRedirect!(redirect, responseDetails, requestDetails);
+        this.forges.beforeRedirect(redirect);
+        const { httpAgent, httpsAgent } = this.proxies.agentsFor(redirect.href, direct);
+        redirect.agents = { http: httpAgent, https: httpsAgent };
+      },
     };
   }
 
-  private async extractWithOCR(url: string, timeout: number): Promise<ExtractionResult | null> {
-    let driver: WebDriver | null = null;
-    
-    try {
-      const options = new chrome.Options();
-      options.addArguments(
-        '--headless',
-        '--no-sandbox',
-        '--disable-dev-shm-usage',
-        '--window-size=1920,1080'
-      );
+  /**
+   * Whether a request to `url` goes out with configured or per-request
+   * credentials: headers, an auth profile, cookies or a forge token.
+   */
+  private sendsCredentials(url: string, options: FetchOptions): boolean {
+    const request = options.headers ? { url, headers: options.headers } : undefined;
+    return Object.keys(this.credentials.headersFor(url, request)).length > 0
+      || Object.keys(this.forges.authHeaders(url)).length > 0;
+  }
 
-      driver = await new Builder()
-        .forBrowser('chrome')
-        .setChromeOptions(options)
-        .build();
+  private formatText(text: string, format: ContentFormat): string {
+    if (format === 'json') {
+      try {
+        return '```json\n' + JSON.stringify(JSON.parse(text), null, 2) + '\n```';
+      } catch {
+        return '```json\n' + text + '\n```';
+      }
+    }
+    if (format === 'xml') {
+      return '```xml\n' + text.trim() + '\n```';
+    }
+    return text;
+  }
 
-      await driver.manage().setTimeouts({ pageLoad: timeout });
-      await driver.get(url);
-      
-      await driver.wait(until.elementLocated(By.tagName('body')), timeout);
+  private async extractWithOCR(url: string, timeout: number, options: FetchOptions = {}): Promise<ExtractionResult | null> {
+    return this.withBrowser(url, options, async driver => {
+      this.report(options, { stage: 'browser', message: 'Browser launched for OCR', url });
+      const finalUrl = await this.navigate(driver, url, timeout);
+      this.report(options, { stage: 'page-loaded', message: `Page loaded for OCR: ${finalUrl}`, url });
       await driver.sleep(3000);
 
-      const screenshot = await driver.takeScreenshot();
-      const imageBuffer = Buffer.from(screenshot, 'base64');
-      
-      const processedImage = await sharp(imageBuffer)
-        .resize(1920, null, { withoutEnlargement: true })
-        .greyscale()
-        .normalize()
-        .png()
-        .toBuffer();
-
-      const ocrText = await tesseract.recognize(processedImage, {
-        lang: 'eng',
-        oem: 1,
-        psm: 3,
-      });
+      const image = await captureFullPage(driver);
+      const screenshot = image.toString('base64');
+      // Recognition cannot be interrupted, so skip it once the result is no longer wanted
+      throwIfAborted(options.signal);
+      this.report(options, { stage: 'ocr', message: 'OCR running on a page screenshot', url });
+      const ocrText = await this.ocr.recognizeImage(image, options.ocrLanguages);
 
-      const score = this.calculateScore(ocrText, 'ocr');
-      
-      return {
-        content: ocrText,
-        method: 'ocr',
-        score,
-        metadata: { screenshot: screenshot }
-      };
-      
-    } finally {
-      if (driver) {
-        await driver.quit();
+      return this.scored(ocrText, 'ocr', { screenshot: screenshot, finalUrl });
+    });
+  }
+
+  /**
+   * Run fallback extractors side by side, each under its own deadline. The
+   * first good-enough result aborts the others, closing their browser
+   * sessions; otherwise every result that arrives competes on score.
+   */
+  private async runFallbacks(
+    url: string,
+    extractors: FallbackExtractor[],
+    signal: AbortSignal,
+    options: FetchOptions
+  ): Promise<ExtractionResult[]> {
+    const settled = new AbortController();
+    const shared = AbortSignal.any([signal, settled.signal]);
+    const results: ExtractionResult[] = [];
+
+    await Promise.all(extractors.map(async ({ name, stage, timeout, extract }) => {
+      const limit = deadline(timeout, `${name} extraction timed out after ${timeout}ms`, shared);
+      try {
+        const result = await extract(limit.signal);
+        if (!result) return;
+        results.push(result);
+        if (!settled.signal.aborted && this.isGoodEnough(result)) {
+          console.error(`${name} result is good enough (score: ${result.score}), stopping the other extractors`);
+          settled.abort(new Error(`Superseded by the ${name} result`));
+        }
+      } catch (error) {
+        if (!shared.aborted) {
+          console.error(`${name} extraction failed:`, error);
+          this.report(options, { stage, message: `${name} extraction failed`, url, error: errorMessage(error) });
+        }
+      } finally {
+        limit.clear();
       }
+    }));
+
+    throwIfAborted(signal);
+    return results;
+  }
+
+  private report(options: FetchOptions, progress: FetchProgress): void {
+    try {
+      options.onProgress?.(progress);
+    } catch (error) {
+      console.error('Progress listener failed:', error);
     }
   }
 
-  private async extractDocument(url: string): Promise<ExtractionResult | null> {
-    const response = await axios.get(url, {
-      responseType: 'arraybuffer',
-      timeout: 30000,
-    });
+  private isGoodEnough(result: ExtractionResult): boolean {
+    return result.score > GOOD_ENOUGH_SCORE || result.metadata?.targetMatched === true;
+  }
 
-    const buffer = Buffer.from(response.data);
-    let content = '';
-    
-    if (url.toLowerCase().includes('.pdf')) {
-      const pdfParser = new (PDFParser as any)(null, 1);
-      content = await new Promise((resolve, reject) => {
-        pdfParser.on('pdfParser_dataError', (errData: any) => reject(errData.parserError));
-        pdfParser.on('pdfParser_dataReady', () => {
-          const text = pdfParser.getRawTextContent();
-          resolve(text);
-        });
-        pdfParser.parseBuffer(buffer);
-      });
-    } else if (url.toLowerCase().includes('.docx')) {
-      const result = await mammoth.extractRawText({ buffer });
-      content = result.value;
-    } else if (url.toLowerCase().includes('.doc')) {
-      content = buffer.toString('utf8');
+  /**
+   * Whether the page has what a selector or scrape schema's rows target, or
+   * undefined when nothing is targeted.
+   */
+  private matchesTarget(html: string, options: FetchOptions): boolean | undefined {
+    const target = options.selector || options.scrape?.rows;
+    return target ? hasMatch(html, target) : undefined;
+  }
+
+  private htmlToMarkdown(html: string, selector?: string): { markdown: string; metadata: Record<string, any> } {
+    const article = extractMainContent(html);
+
+    if (selector) {
+      const selected = selectHtml(html, selector);
+      return {
+        markdown: this.turndown.turndown(selected.html).trim(),
+        metadata: {
+          title: article.title,
+          canonicalUrl: article.canonicalUrl,
+          language: article.language,
+          selectedHtml: selected.html,
+          selectorMatches: selected.matches,
+        },
+      };
+    }
+
+    let markdown = this.turndown.turndown(article.html).trim();
+
+    const details = [article.byline, article.publishedAt].filter(Boolean).join(' · ');
+    if (details) {
+      markdown = `*${details}*\n\n${markdown}`;
+    }
+    if (article.title && !markdown.startsWith('# ')) {
+      markdown = `# ${article.title}\n\n${markdown}`;
     }
 
-    const score = this.calculateScore(content, 'document');
-    
     return {
-      content,
-      method: 'document',
-      score,
-      metadata: { fileSize: buffer.length }
+      markdown,
+      metadata: {
+        title: article.title,
+        byline: article.byline,
+        publishedAt: article.publishedAt,
+        excerpt: article.excerpt,
+        canonicalUrl: article.canonicalUrl,
+        language: article.language,
+      },
     };
   }
 
-  private calculateScore(content: string, method: string): number {
-    let score = 0;
-    
-    const contentLength = content.length;
-    if (contentLength < 100) {
-      score -= 20;
-    } else {
-      score += Math.min(contentLength / 100, 50);
-    }
-    
-    const paragraphs = content.split(/\n\s*\n/).filter(p => p.trim().length > 50);
-    score += Math.min(paragraphs.length * 2, 20);
-    
-    const errorPatterns = [
-      /error/i,
-      /not found/i,
-      /access denied/i,
-      /forbidden/i,
-      /timeout/i,
-      /captcha/i,
-      /robot/i,
-    ];
-    
-    const hasErrors = errorPatterns.some(pattern => pattern.test(content));
-    if (hasErrors) {
-      score -= 30;
-    }
-    
-    if (method === 'browser') score += 5;
-    if (method === 'http') score += 3;
-    if (method === 'ocr') score -= 5;
-    if (method === 'document') score += 10;
-    
-    const hasStructure = /#{1,6}\s/.test(content) || /<h[1-6]/.test(content);
-    if (hasStructure) score += 10;
-    
-    const hasLinks = /\[.*\]\(.*\)/.test(content) || /<a\s+href/.test(content);
-    if (hasLinks) score += 5;
-    
-    return Math.max(0, score);
+  /**
+   * Build an extraction result rated by the configured scorer. The per-signal
+   * breakdown is kept in `metadata.scoring`.
+   */
+  private scored(content: string, method: string, metadata: Record<string, any>): ExtractionResult {
+    const scoring = this.scorer.score(content, {
+      method,
+      status: metadata.status,
+      title: metadata.title,
+      targetMatched: metadata.targetMatched,
+    });
+    return { content, method, score: scoring.total, metadata: { ...metadata, scoring } };
   }
 
+  /**
+   * Pick the highest-scoring result and record every candidate's score on it,
+   * so the choice can be explained afterwards.
+   */
   private selectBestResult(results: ExtractionResult[]): ExtractionResult {
     results.sort((a, b) => b.score - a.score);
     
     console.error('Extraction results:');
     results.forEach(r => {
-      console.error(`  ${r.method}: score ${r.score}, length ${r.content.length}`);
+      const signals = (r.metadata?.scoring?.signals || []).map((s: ScoreSignal) => `${s.name} ${s.points}`).join(', ');
+      console.error(`  ${r.method}: score ${r.score}, length ${r.content.length}${signals ? ` (${signals})` : ''}`);
     });
     
-    return results[0];
+    const [best] = results;
+    const candidates = results.map(r => ({ method: r.method, score: r.score }));
+    return { ...best, metadata: { ...best.metadata, scoring: { ...best.metadata?.scoring, candidates } } };
   }
 
-  private isDocumentUrl(url: string): boolean {
-    const documentExtensions = ['.pdf', '.doc', '.docx', '.pptx', '.ppt'];
-    return documentExtensions.some(ext => url.toLowerCase().includes(ext));
+  /**
+   * A plain HTTP GET through the URL policy, politeness and proxy settings,
+   * with none of the extraction fallbacks. Resolves with any status.
+   */
+  async fetchText(
+    url: string,
+    options: { headers?: Record<string, string>; signal?: AbortSignal } = {}
+  ): Promise<{ status: number; body: string; headers: Record<string, any> }> {
+    await this.urlPolicy.assertAllowed(url);
+    const response = await this.politeness.schedule(url, () => axios.get(url, {
+      ...this.networkConfig(url),
+      headers: { 'User-Agent': this.politeness.userAgent, ...options.headers },
+      responseType: 'text',
+      timeout: 30000,
+      signal: options.signal,
+      maxRedirects: 5,
+      validateStatus: () => true,
+    }), options.signal);
+    return { status: response.status, body: response.data, headers: response.headers };
   }
 
-  private processGitHubUrl(url: string): string {
-    // Convert GitHub blob URLs to raw content URLs
-    const githubBlobPattern = /github\.com\/([^\/]+)\/([^\/]+)\/blob\/([^\/]+)\/(.*)/;
-    const match = url.match(githubBlobPattern);
-    
-    if (match) {
-      const [, owner, repo, branch, path] = match;
-      return `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${path}`;
-    }
-    
-    // Convert GitHub tree URLs to API URLs
-    const githubTreePattern = /github\.com\/([^\/]+)\/([^\/]+)\/tree\/([^\/]+)\/(.*)/;
-    const treeMatch = url.match(githubTreePattern);
-    
-    if (treeMatch) {
-      const [, owner, repo, branch, path] = treeMatch;
-      return `https://api.github.com/repos/${owner}/${repo}/contents/${path}?ref=${branch}`;
+  private async forgeRequest(
+    url: string,
+    headers: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<{ body: string; headers: Record<string, any> }> {
+    const response = await this.fetchText(url, { headers, signal });
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Request failed with status code ${response.status}`);
     }
-    
-    return url;
+    return response;
   }
 
   async cleanup(): Promise<void> {
-    if (this.driver) {
-      await this.driver.quit();
-      this.driver = null;
-    }
+    await this.browserPool.drain();
   }
-}
\ No newline at end of file
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,102 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CookieJar, formatNetscape, parseNetscape } from '../src/cookie-jar.js';
+import { Credentials } from '../src/credentials.js';
+
+describe('CookieJar', () => {
+  it('matches cookies by domain, path and scheme', () => {
+    const jar = new CookieJar();
+    jar.setCookies('https://www.example.com/docs/page', [
+      'host=1',
+      'wide=2; Domain=example.com; Path=/',
+      'secure=3; Path=/; Secure',
+    ]);
+    assert.equal(jar.header('https://www.example.com/docs/other'), 'host=1; wide=2; secure=3');
+    assert.equal(jar.header('http://www.example.com/'), 'wide=2');
+    assert.equal(jar.header('https://api.example.com/'), 'wide=2');
+    assert.equal(jar.header('https://example.org/'), undefined);
+  });
+
+  it('rejects cookies for other sites and removes expired ones', () => {
+    const jar = new CookieJar();
+    jar.setCookies('https://example.com/', ['other=1; Domain=example.org', 'tld=1; Domain=com', 'session=1; Path=/']);
+    assert.equal(jar.header('https://example.com/'), 'session=1');
+    jar.setCookies('https://example.com/', 'session=; Path=/; Max-Age=0');
+    assert.equal(jar.header('https://example.com/'), undefined);
+  });
+
+  it('round-trips the Netscape format', () => {
+    const text = '# Netscape HTTP Cookie File\n.example.com\tTRUE\t/\tTRUE\t0\tsid\tabc\n#HttpOnly_app.example.com\tFALSE\t/x\tFALSE\t4102444800\ttok\tv\tw\n';
+    const cookies = parseNetscape(text);
+    assert.deepEqual(cookies, [
+      { name: 'sid', value: 'abc', domain: 'example.com', hostOnly: false, path: '/', secure: true, httpOnly: false, expires: undefined },
+      { name: 'tok', value: 'v\tw', domain: 'app.example.com', hostOnly: true, path: '/x', secure: false, httpOnly: true, expires: 4102444800 },
+    ]);
+    assert.deepEqual(parseNetscape(formatNetscape(cookies)), cookies);
+  });
+});
+
+describe('Credentials cookie scoping', () => {
+  let directory: string;
+  let files = 0;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'web-fetcher-cookies-'));
+  });
+
+  after(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  /** Credentials with a fresh cookie file holding a wiki login and an auth profile for the SSO host. */
+  async function credentials(): Promise<Credentials> {
+    const cookieFile = path.join(directory, `cookies-${++files}.txt`);
+    await fs.writeFile(cookieFile, '.wiki.example.com\tTRUE\t/\tFALSE\t0\tsid\tlogged-in\n');
+    const instance = new Credentials({ cookieFile, headers: {}, auth: { 'sso.example.com': { type: 'bearer', token: 't' } } });
+    await instance.ready();
+    return instance;
+  }
+
+  it('sends cookie file cookies as credentials', async () => {
+    const config = (await credentials()).requestConfig('https://wiki.example.com/page');
+    assert.equal(config.headers['Cookie'], 'sid=logged-in');
+    assert.equal(config.credentialed(), true);
+  });
+
+  it('keeps cookies from other sites to the request that received them', async () => {
+    const instance = await credentials();
+    const config = instance.requestConfig('https://news.example.org/a');
+    assert.equal(config.credentialed(), false);
+
+    const redirect: Record<string, any> = { href: 'https://news.example.org/b', headers: {} };
+    config.beforeRedirect(redirect, { headers: { 'set-cookie': ['consent=yes; Path=/'] } }, { url: 'https://news.example.org/a' });
+    assert.equal(redirect.headers['Cookie'], 'consent=yes');
+    assert.equal(config.credentialed(), false);
+
+    config.storeCookies('https://news.example.org/b', 'tracking=1; Path=/');
+    assert.deepEqual(instance.headersFor('https://news.example.org/a'), {});
+    assert.equal(instance.requestConfig('https://news.example.org/a').credentialed(), false);
+  });
+
+  it('keeps cookies set by configured sites for later requests', async () => {
+    const instance = await credentials();
+    instance.requestConfig('https://wiki.example.com/').storeCookies('https://wiki.example.com/', 'csrf=1; Path=/');
+    instance.requestConfig('https://sso.example.com/').storeCookies('https://sso.example.com/', 'session=2; Path=/');
+
+    assert.equal(instance.headersFor('https://wiki.example.com/')['Cookie'], 'sid=logged-in; csrf=1');
+    assert.equal(instance.headersFor('https://sso.example.com/')['Cookie'], 'session=2');
+  });
+
+  it('never keeps cookies set in reply to per-request headers', async () => {
+    const instance = await credentials();
+    const request = { url: 'https://wiki.example.com/', headers: { 'Cookie': 'sid=someone-else' } };
+    const config = instance.requestConfig('https://wiki.example.com/', request);
+    assert.equal(config.headers['Cookie'], 'sid=someone-else');
+
+    config.storeCookies('https://wiki.example.com/', 'sid=someone-elses-session; Path=/');
+    assert.equal(instance.headersFor('https://wiki.example.com/')['Cookie'], 'sid=logged-in');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import JSZip from 'jszip';
+import { extractDocument } from '../src/document-extractors.js';
+
+const options = { toMarkdown: (html: string) => html };
+
+async function xlsx(sheetData: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('xl/workbook.xml', '<workbook><sheets><sheet name="Data" r:id="rId1"/></sheets></workbook>');
+  zip.file('xl/_rels/workbook.xml.rels', '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>');
+  zip.file('xl/worksheets/sheet1.xml', `<worksheet><sheetData>${sheetData}</sheetData></worksheet>`);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+async function ods(table: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('content.xml', `<office:document-content><office:body><office:spreadsheet><table:table table:name="Data">${table}</table:table></office:spreadsheet></office:body></office:document-content>`);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+function tableRows(content: string): string[] {
+  return content.split('\n').filter(line => line.startsWith('|'));
+}
+
+describe('XLSX extraction', () => {
+  it('places cells by their references', async () => {
+    const buffer = await xlsx(
+      '<row r="1"><c r="A1" t="inlineStr"><is><t>Name</t></is></c><c r="C1" t="inlineStr"><is><t>Size</t></is></c></row>'
+      + '<row r="3"><c r="A3"><v>a</v></c><c r="C3"><v>1</v></c></row>'
+    );
+    const { content } = await extractDocument(buffer, 'xlsx', options);
+    assert.deepEqual(tableRows(content), ['| Name |  | Size |', '| --- | --- | --- |', '|  |  |  |', '| a |  | 1 |']);
+  });
+
+  it('skips cells past the last row and column without padding up to them', async () => {
+    const buffer = await xlsx(
+      '<row r="1"><c r="A1"><v>header</v></c><c r="XFD1"><v>far right</v></c></row>'
+      + '<row r="2"><c r="A2"><v>value</v></c><c r="ZZZZZZZZ2"><v>nowhere</v></c></row>'
+      + '<row r="1048576"><c r="A1048576"><v>last</v></c></row>'
+      + '<row r="99999999"><c r="A99999999"><v>beyond</v></c></row>'
+    );
+    const started = Date.now();
+    const { content } = await extractDocument(buffer, 'xlsx', options);
+    assert.ok(Date.now() - started < 2000);
+    assert.deepEqual(tableRows(content), ['| header |', '| --- |', '| value |']);
+    assert.match(content, /\*\(2 more rows not shown\)\*/);
+  });
+
+  it('ignores invalid row numbers', async () => {
+    const buffer = await xlsx('<row r="x"><c><v>one</v></c></row><row r="-5"><c><v>two</v></c></row>');
+    const { content } = await extractDocument(buffer, 'xlsx', options);
+    assert.deepEqual(tableRows(content), ['| one |', '| --- |', '| two |']);
+  });
+});
+
+describe('ODS extraction', () => {
+  it('caps repeated cells and rows, text or not', async () => {
+    const buffer = await ods(
+      '<table:table-row><table:table-cell table:number-columns-repeated="1000000"><text:p>x</text:p></table:table-cell></table:table-row>'
+      + '<table:table-row table:number-rows-repeated="1000000"><table:table-cell><text:p>y</text:p></table:table-cell></table:table-row>'
+      + '<table:table-row table:number-rows-repeated="1048000"><table:table-cell table:number-columns-repeated="16384"/></table:table-row>'
+    );
+    const started = Date.now();
+    const { content } = await extractDocument(buffer, 'ods', options);
+    assert.ok(Date.now() - started < 2000);
+
+    const rows = tableRows(content);
+    assert.equal(rows[0].split('|').length - 2, 256);
+    // 1000 table rows plus the header separator
+    assert.equal(rows.length, 1001);
+    assert.match(content, /\*\(1 more rows not shown\)\*/);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Forges, ForgeRequest } from '../src/forges.js';
+
+const options = {
+  github: { webUrl: 'https://github.com', apiUrl: 'https://api.github.com', token: 'gh-token' },
+  gitlab: { webUrl: 'https://gitlab.example.com', apiUrl: 'https://gitlab.example.com/api/v4', token: 'gl-token' },
+  gitea: { webUrl: 'https://codeberg.org', apiUrl: 'https://codeberg.org/api/v1' },
+};
+
+/**
+ * A forge API that knows `refs` and records every request it is sent.
+ */
+function fakeApi(refs: string[]): { request: ForgeRequest; requested: string[] } {
+  const requested: string[] = [];
+  const request: ForgeRequest = async url => {
+    requested.push(url);
+    const ref = decodeURIComponent(url.match(/\/commits\/([^/?]+)/)?.[1] || '');
+    if (!refs.includes(ref)) throw new Error('Request failed with status code 404');
+    return { body: '{}', headers: {} };
+  };
+  return { request, requested };
+}
+
+describe('Forges ref resolution', () => {
+  it('finds the shortest ref the API confirms for a slash-containing ref', async () => {
+    const api = fakeApi(['feature/login']);
+    const forges = new Forges(api.request, options);
+
+    const route = await forges.route('https://gitlab.example.com/group/app/-/blob/feature/login/src/main.ts');
+    assert.deepEqual(route, {
+      type: 'raw',
+      url: 'https://gitlab.example.com/api/v4/projects/group%2Fapp/repository/files/src%2Fmain.ts/raw?ref=feature%2Flogin',
+      headers: { 'PRIVATE-TOKEN': 'gl-token' },
+    });
+    assert.deepEqual(api.requested, [
+      'https://gitlab.example.com/api/v4/projects/group%2Fapp/repository/commits/feature',
+      'https://gitlab.example.com/api/v4/projects/group%2Fapp/repository/commits/feature%2Flogin',
+    ]);
+  });
+
+  it('remembers confirmed refs', async () => {
+    const api = fakeApi(['feature/login']);
+    const forges = new Forges(api.request, options);
+
+    await forges.route('https://gitlab.example.com/group/app/-/blob/feature/login/a.ts');
+    await forges.route('https://gitlab.example.com/group/app/-/blob/feature/login/b.ts');
+    const lookups = api.requested.filter(url => url.endsWith('/commits/feature%2Flogin'));
+    assert.equal(lookups.length, 1);
+  });
+
+  it('keeps the first segment as the ref when the API confirms none', async () => {
+    const api = fakeApi([]);
+    const forges = new Forges(api.request, options);
+
+    const route = await forges.route('https://gitlab.example.com/group/app/-/blob/main/docs/guide.md');
+    assert.equal(route?.type, 'raw');
+    assert.match((route as { url: string }).url, /files\/docs%2Fguide\.md\/raw\?ref=main$/);
+  });
+
+  it('skips the lookup for commit SHAs and github.com files', async () => {
+    const api = fakeApi([]);
+    const forges = new Forges(api.request, options);
+    const sha = '0123456789abcdef0123456789abcdef01234567';
+
+    await forges.route(`https://gitlab.example.com/group/app/-/blob/${sha}/src/main.ts`);
+    const route = await forges.route('https://github.com/owner/repo/blob/feature/login/README.md');
+    assert.deepEqual(api.requested, []);
+    assert.equal((route as { url: string }).url, 'https://raw.githubusercontent.com/owner/repo/feature/login/README.md');
+  });
+});
+
+describe('Forges tokens', () => {
+  const forges = new Forges(fakeApi([]).request, options);
+
+  it('sends tokens only to the API and GitHub raw files', () => {
+    assert.deepEqual(forges.authHeaders('https://gitlab.example.com/api/v4/projects/1'), { 'PRIVATE-TOKEN': 'gl-token' });
+    assert.deepEqual(forges.authHeaders('https://gitlab.example.com/group/app'), {});
+    assert.deepEqual(forges.authHeaders('https://gitlab.example.com/api/v4evil/x'), {});
+    assert.deepEqual(forges.authHeaders('https://raw.githubusercontent.com/owner/repo/main/a.md'), { 'Authorization': 'Bearer gh-token' });
+    assert.deepEqual(forges.authHeaders('https://codeberg.org/api/v1/repos/a/b'), {});
+  });
+
+  it('drops tokens from redirects that leave the API', () => {
+    const offApi = { href: 'https://cdn.example.net/file', headers: { 'PRIVATE-TOKEN': 'gl-token', 'Accept': '*/*' } };
+    forges.beforeRedirect(offApi);
+    assert.deepEqual(offApi.headers, { 'Accept': '*/*' });
+
+    const sameHost = { href: 'https://gitlab.example.com/users/sign_in', headers: { 'private-token': 'gl-token' } };
+    forges.beforeRedirect(sameHost);
+    assert.deepEqual(sameHost.headers, {});
+
+    const onApi = { href: 'https://gitlab.example.com/api/v4/projects/2', headers: { 'PRIVATE-TOKEN': 'gl-token' } };
+    forges.beforeRedirect(onApi);
+    assert.deepEqual(onApi.headers, { 'PRIVATE-TOKEN': 'gl-token' });
+  });
+
+  it('leaves credentials that are not forge tokens alone', () => {
+    const redirect = { href: 'https://cdn.example.net/file', headers: { 'Authorization': 'Bearer other' } };
+    forges.beforeRedirect(redirect);
+    assert.deepEqual(redirect.headers, { 'Authorization': 'Bearer other' });
+  });
+});
@@ -0,0 +1,88 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { HttpCache } from '../src/http-cache.js';
+
+const result = { content: 'Hello', method: 'http', score: 60 };
+
+describe('HttpCache', () => {
+  let directory: string;
+  let cache: HttpCache;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'web-fetcher-cache-test-'));
+    cache = new HttpCache({ enabled: true, directory, defaultTtl: 300 });
+  });
+
+  after(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores results under max-age with their validators', async () => {
+    await cache.set('https://example.com/a', result, { 'cache-control': 'max-age=60', etag: '"v1"' });
+    const entry = await cache.get('https://example.com/a');
+    assert.ok(entry);
+    assert.equal(entry.result.content, 'Hello');
+    assert.ok(cache.isFresh(entry));
+    assert.deepEqual(cache.conditionalHeaders(entry), { 'If-None-Match': '"v1"' });
+  });
+
+  it('keeps variants of a URL apart', async () => {
+    await cache.set('https://example.com/b', result);
+    await cache.set('https://example.com/b#scrape=0123456789abcdef', { ...result, content: 'Rows' });
+    assert.equal((await cache.get('https://example.com/b'))?.result.content, 'Hello');
+    assert.equal((await cache.get('https://example.com/b#scrape=0123456789abcdef'))?.result.content, 'Rows');
+    assert.equal(await cache.get('https://example.com/b#scrape=fedcba9876543210'), null);
+  });
+
+  it('never stores private, no-store or credentialed responses', async () => {
+    await cache.set('https://example.com/private', result, { 'cache-control': 'private, max-age=60' });
+    await cache.set('https://example.com/no-store', result, { 'cache-control': 'no-store' });
+    await cache.set('https://example.com/login', result, {}, true);
+    assert.equal(await cache.get('https://example.com/private'), null);
+    assert.equal(await cache.get('https://example.com/no-store'), null);
+    assert.equal(await cache.get('https://example.com/login'), null);
+  });
+
+  it('writes entries readable only by their owner', { skip: process.platform === 'win32' }, async () => {
+    await cache.set('https://example.com/mode', result);
+    const [name] = (await fs.readdir(directory)).filter(file => file.endsWith('.json'));
+    assert.equal((await fs.stat(path.join(directory, name))).mode & 0o077, 0);
+    assert.equal((await fs.stat(directory)).mode & 0o077, 0);
+  });
+
+  it('renews an entry revalidated by a cacheable 304', async () => {
+    await cache.set('https://example.com/c', result, { 'cache-control': 'no-cache', etag: '"v1"' });
+    const stale = await cache.get('https://example.com/c');
+    assert.ok(stale && !cache.isFresh(stale));
+
+    const refreshed = await cache.refresh(stale, { 'cache-control': 'max-age=60', etag: '"v2"' });
+    assert.ok(cache.isFresh(refreshed));
+    const stored = await cache.get('https://example.com/c');
+    assert.equal(stored?.etag, '"v2"');
+    assert.ok(stored && cache.isFresh(stored));
+  });
+
+  it('removes an entry when the 304 forbids storing it', async () => {
+    for (const headers of [{ 'cache-control': 'no-store' }, { 'cache-control': 'private' }]) {
+      await cache.set('https://example.com/d', result, { 'cache-control': 'no-cache' });
+      const stale = await cache.get('https://example.com/d');
+      assert.ok(stale);
+
+      const refreshed = await cache.refresh(stale, headers);
+      assert.equal(refreshed.result.content, 'Hello');
+      assert.equal(cache.isFresh(refreshed), false);
+      assert.equal(await cache.get('https://example.com/d'), null);
+    }
+  });
+
+  it('removes an entry revalidated with credentials', async () => {
+    await cache.set('https://example.com/e', result, { 'cache-control': 'no-cache' });
+    const stale = await cache.get('https://example.com/e');
+    assert.ok(stale);
+    await cache.refresh(stale, { 'cache-control': 'max-age=60' }, true);
+    assert.equal(await cache.get('https://example.com/e'), null);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { hasMatch, parseScrapeSchema, scrape, selectHtml, validateSelectors } from '../src/selectors.js';
+
+const page = `<html><body>
+  <h1>Releases</h1>
+  <ul>
+    <li class="release"><a href="/v2">Version 2</a><span class="tag">stable</span><span class="tag">lts</span></li>
+    <li class="release"><a href="/v1">Version 1</a></li>
+  </ul>
+  <footer><a href="/about">About</a></footer>
+</body></html>`;
+
+describe('selectHtml', () => {
+  it('tells CSS and XPath selectors apart', () => {
+    assert.equal(selectHtml(page, 'li.release').matches, 2);
+    assert.equal(selectHtml(page, '//li[@class="release"]').matches, 2);
+    assert.equal(selectHtml(page, 'xpath:count(//li)').html, '<p>2</p>');
+    assert.equal(selectHtml(page, 'css:h1').html, '<h1>Releases</h1>');
+  });
+
+  it('reports invalid selectors by kind', () => {
+    assert.throws(() => selectHtml(page, 'li['), /Invalid CSS selector "li\["/);
+    assert.throws(() => selectHtml(page, '//li['), /Invalid XPath "\/\/li\["/);
+    assert.throws(() => selectHtml(page, 'xpath: '), /Selector is empty/);
+  });
+
+  it('finds targets only where they exist', () => {
+    assert.equal(hasMatch(page, 'footer a'), true);
+    assert.equal(hasMatch(page, '//table'), false);
+  });
+});
+
+describe('scrape', () => {
+  it('evaluates XPath fields within each row', () => {
+    const rows = scrape(page, {
+      rows: '//li',
+      fields: {
+        title: './a',
+        link: { selector: 'a', attribute: 'href' },
+        tags: { selector: './span[@class="tag"]', multiple: true },
+      },
+    }, 'https://example.com/releases');
+    assert.deepEqual(rows, [
+      { title: 'Version 2', link: 'https://example.com/v2', tags: ['stable', 'lts'] },
+      { title: 'Version 1', link: 'https://example.com/v1', tags: [] },
+    ]);
+  });
+
+  it('treats the whole page as one row without a rows selector', () => {
+    const rows = scrape(page, { fields: { heading: '//h1', releases: 'xpath:count(//li)' } }, 'https://example.com/');
+    assert.deepEqual(rows, [{ heading: 'Releases', releases: '2' }]);
+  });
+
+  it('returns no rows when the rows selector matches nothing', () => {
+    assert.deepEqual(scrape(page, { rows: '//table', fields: { cell: './td' } }, 'https://example.com/'), []);
+  });
+});
+
+describe('validateSelectors', () => {
+  it('accepts well-formed selectors and schemas', () => {
+    validateSelectors('main', { rows: '//li', fields: { a: './a', b: { attribute: 'href' }, c: { selector: 'span.tag' } } });
+    validateSelectors();
+  });
+
+  it('rejects a malformed selector or schema field before any page is seen', () => {
+    assert.throws(() => validateSelectors('div[', undefined), /Invalid CSS selector/);
+    assert.throws(() => validateSelectors(undefined, { rows: '//li[', fields: { a: 'a' } }), /Invalid XPath/);
+    assert.throws(() => validateSelectors(undefined, { fields: { a: { selector: 'p:nosuch' } } }), /Unknown pseudo-class/);
+  });
+});
+
+describe('parseScrapeSchema', () => {
+  it('rejects schemas of the wrong shape', () => {
+    assert.equal(parseScrapeSchema(undefined), undefined);
+    assert.throws(() => parseScrapeSchema({ fields: {} }), /scrape.fields must map/);
+    assert.throws(() => parseScrapeSchema({ rows: 3, fields: { a: 'a' } }), /scrape.rows must be a selector string/);
+    assert.throws(() => parseScrapeSchema({ fields: { a: { selector: 3 } } }), /scrape.fields.a must be/);
+  });
+});
@@ -0,0 +1,73 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { WebFetcher } from '../src/web-fetcher.js';
+
+const page = `<html><head><title>Releases</title></head><body>
+  <ul><li><a href="/v2">Version 2</a></li><li><a href="/v1">Version 1</a></li></ul>
+</body></html>`;
+
+describe('WebFetcher targeted fetches', () => {
+  let server: http.Server;
+  let base: string;
+  let directory: string;
+  let fetcher: WebFetcher;
+  const requests: string[] = [];
+
+  before(async () => {
+    server = http.createServer((request, response) => {
+      requests.push(request.url || '');
+      if (request.url === '/robots.txt') {
+        response.writeHead(404).end();
+        return;
+      }
+      response.writeHead(200, { 'Content-Type': 'text/html' }).end(page);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'web-fetcher-test-'));
+    fetcher = new WebFetcher({
+      cache: { enabled: true, directory, defaultTtl: 300 },
+      politeness: { enabled: false },
+      urlPolicy: { allowPrivateNetworks: true },
+      credentials: { headers: {}, auth: {} },
+    });
+  });
+
+  after(async () => {
+    await fetcher.cleanup();
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('caches results separately per scrape schema', async () => {
+    const titles = { rows: 'li', fields: { title: 'a' } };
+    const links = { rows: 'li', fields: { link: { selector: 'a', attribute: 'href' } } };
+
+    const first = await fetcher.fetchContent(`${base}/releases`, { scrape: titles });
+    assert.equal(first.cached, false);
+    assert.deepEqual(first.rows, [{ title: 'Version 2' }, { title: 'Version 1' }]);
+
+    const again = await fetcher.fetchContent(`${base}/releases`, { scrape: titles });
+    assert.equal(again.cached, true);
+
+    const other = await fetcher.fetchContent(`${base}/releases`, { scrape: links });
+    assert.equal(other.cached, false);
+    assert.deepEqual(other.rows, [{ link: `${base}/v2` }, { link: `${base}/v1` }]);
+  });
+
+  it('rejects a malformed selector without fetching', async () => {
+    const before = requests.length;
+    await assert.rejects(fetcher.fetchContent(`${base}/other`, { selector: 'li[' }), /Invalid CSS selector "li\["/);
+    await assert.rejects(
+      fetcher.fetchContent(`${base}/other`, { scrape: { rows: '//li[', fields: { title: 'a' } } }),
+      /Invalid XPath "\/\/li\["/
+    );
+    assert.equal(requests.length, before);
+  });
+});